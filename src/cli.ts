@@ -0,0 +1,455 @@
+#!/usr/bin/env node
+// cli.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+	ReplacementConfig,
+	ReplacementsFileHost,
+	ValidationProblem,
+	computeReplacementEdits,
+	createReplacementVariables,
+	defaultMaxFileSize,
+	defaultRegexTimeout,
+	expandVariables,
+	hasTrigger,
+	loadReplacementsFile,
+	locateProblems,
+	matchesFilters,
+	matchesGlob,
+	runReplacements,
+	setWarningHandler,
+	validateReplacements,
+} from './engine';
+import { ParseError, parseReplacementsFile } from './fileFormats';
+import { findPropertyOffsets, findRootOffset } from './jsonLocations';
+
+/**
+ * Command line interface: applies the replacements configured in a workspace's
+ * .vscode/settings.json without VS Code, e.g. in CI or a pre-commit hook. With
+ * --check, files are left unchanged and the replacements that would be made are listed.
+ */
+
+const usage = `Usage: better-replace-on-save [options] [paths...]
+
+Apply the replacements configured in .vscode/settings.json to files. Paths can be
+files or folders, and default to the whole workspace.
+
+Options:
+  --check              Don't change files; list the replacements that would be made
+                       and exit with code 1 if there are any
+  --workspace <folder> Folder containing .vscode/settings.json (default: current folder)
+  -h, --help           Show this help`;
+
+// Exit codes: replacements found by --check, and invalid arguments, invalid configuration or aborted replacements
+const exitReplacementsFound = 1;
+const exitError = 2;
+
+// Folders that are never searched, in addition to those excluded by `files.exclude`
+const skippedFolders = ['.git', 'node_modules'];
+
+// VS Code language IDs of common file extensions, for replacements with `languages`.
+// Other files can be mapped with the `files.associations` setting.
+const languageIds: Record<string, string> = {
+	'.bat': 'bat',
+	'.c': 'c',
+	'.cc': 'cpp',
+	'.cjs': 'javascript',
+	'.cpp': 'cpp',
+	'.cs': 'csharp',
+	'.css': 'css',
+	'.dart': 'dart',
+	'.go': 'go',
+	'.h': 'c',
+	'.hpp': 'cpp',
+	'.html': 'html',
+	'.java': 'java',
+	'.js': 'javascript',
+	'.json': 'json',
+	'.jsonc': 'jsonc',
+	'.jsx': 'javascriptreact',
+	'.kt': 'kotlin',
+	'.less': 'less',
+	'.lua': 'lua',
+	'.md': 'markdown',
+	'.mjs': 'javascript',
+	'.php': 'php',
+	'.ps1': 'powershell',
+	'.py': 'python',
+	'.r': 'r',
+	'.rb': 'ruby',
+	'.rs': 'rust',
+	'.scss': 'scss',
+	'.sh': 'shellscript',
+	'.sql': 'sql',
+	'.swift': 'swift',
+	'.toml': 'toml',
+	'.ts': 'typescript',
+	'.tsx': 'typescriptreact',
+	'.txt': 'plaintext',
+	'.vue': 'vue',
+	'.xml': 'xml',
+	'.yaml': 'yaml',
+	'.yml': 'yaml',
+};
+
+interface CliOptions {
+	check: boolean;
+	workspace: string;
+	paths: string[];
+}
+
+/**
+ * The settings the CLI reads from .vscode/settings.json
+ */
+interface WorkspaceSettings {
+	text: string;  // Text of settings.json, used to locate problems in `replacements`
+	replacements: unknown;
+	replacementsFiles: unknown;
+	disabledGroups: unknown;
+	regexTimeout: unknown;
+	maxFileSize: unknown;
+	skipFiles: unknown;
+	associations: unknown;  // `files.associations`: language IDs by glob
+	exclude: unknown;  // `files.exclude`: globs of files and folders to skip
+}
+
+/**
+ * An invalid command line or configuration; the message is shown instead of a stack trace
+ */
+class CliError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'CliError';
+	}
+}
+
+let hasConfigurationErrors = false;
+
+// Settings and replacements files that were read. They aren't changed, as a replacement could change its own search pattern.
+const configurationFiles = new Set<string>();
+
+function parseArguments(args: string[]): CliOptions | undefined {
+	const options: CliOptions = { check: false, workspace: process.cwd(), paths: [] };
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === '-h' || arg === '--help') {
+			return undefined;
+		} else if (arg === '--check') {
+			options.check = true;
+		} else if (arg === '--workspace') {
+			if (args[i + 1] === undefined) {
+				throw new CliError('--workspace requires a folder');
+			}
+			options.workspace = path.resolve(args[++i]);
+		} else if (arg.startsWith('-')) {
+			throw new CliError(`Unknown option ${arg} (run with --help for usage)`);
+		} else {
+			options.paths.push(path.resolve(arg));
+		}
+	}
+	return options;
+}
+
+async function readSettings(workspace: string): Promise<WorkspaceSettings> {
+	const settingsPath = path.join(workspace, '.vscode', 'settings.json');
+	configurationFiles.add(settingsPath);
+	let text: string;
+	try {
+		text = await fs.promises.readFile(settingsPath, 'utf8');
+	} catch (error) {
+		throw new CliError(`Couldn't read ${settingsPath}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	let settings: unknown;
+	try {
+		settings = parseReplacementsFile(text, 'jsonc');
+	} catch (error) {
+		if (error instanceof ParseError) {
+			throw new CliError(`${formatLocation(displayPath(settingsPath), text, error.offset)}: ${error.message}`);
+		}
+		throw error;
+	}
+	if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+		throw new CliError(`${settingsPath}: Settings must be an object`);
+	}
+
+	const values = settings as Record<string, unknown>;
+	return {
+		text,
+		replacements: values['betterReplaceOnSave.replacements'],
+		replacementsFiles: values['betterReplaceOnSave.replacementsFiles'],
+		disabledGroups: values['betterReplaceOnSave.disabledGroups'],
+		regexTimeout: values['betterReplaceOnSave.regexTimeout'],
+		maxFileSize: values['betterReplaceOnSave.maxFileSize'],
+		skipFiles: values['betterReplaceOnSave.skipFiles'],
+		associations: values['files.associations'],
+		exclude: values['files.exclude'],
+	};
+}
+
+/**
+ * Load the replacements from settings and replacements files, leaving out disabled groups
+ * and replacements that don't run on save
+ */
+async function loadReplacements(workspace: string, settings: WorkspaceSettings): Promise<ReplacementConfig[]> {
+	const settingsPath = path.join(workspace, '.vscode', 'settings.json');
+	const seenIds = new Set<string>();
+
+	const { valid: settingsReplacements, problems } =
+		validateReplacements(Array.isArray(settings.replacements) ? settings.replacements : [], seenIds);
+	const property = findPropertyOffsets(settings.text, findRootOffset(settings.text), 'betterReplaceOnSave.replacements');
+	printProblems(settingsPath, settings.text, property?.valueOffset ?? 0, problems);
+
+	const host: ReplacementsFileHost = {
+		readFile: async location => {
+			configurationFiles.add(location);
+			try {
+				return await fs.promises.readFile(location, 'utf8');
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+					console.warn(`Replacements file not found: ${location}`);
+					return undefined;
+				}
+				throw error;
+			}
+		},
+		resolveReference: (filePath, referencingLocation) => resolveReplacementsPath(filePath, path.dirname(referencingLocation), workspace),
+		reportProblems: printProblems,
+	};
+
+	const fileReplacements: ReplacementConfig[] = [];
+	const replacementsFiles = Array.isArray(settings.replacementsFiles) ? settings.replacementsFiles : [];
+	for (const filePath of replacementsFiles.filter(entry => typeof entry === 'string')) {
+		const location = resolveReplacementsPath(filePath, workspace, workspace);
+		if (location === undefined) {
+			continue;
+		}
+		try {
+			fileReplacements.push(...await loadReplacementsFile(location, host, seenIds));
+		} catch (error) {
+			console.error(`Error loading replacements from file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+			hasConfigurationErrors = true;
+		}
+	}
+
+	const disabledGroups = Array.isArray(settings.disabledGroups) ? settings.disabledGroups : [];
+	return [...settingsReplacements, ...fileReplacements].filter(replacement =>
+		(replacement.group === undefined || !disabledGroups.includes(replacement.group)) && hasTrigger(replacement, 'save'));
+}
+
+/**
+ * Resolve a `replacementsFiles` entry, or a path in an `extends` or `include`, to a file path.
+ * Only `file:` URIs can be read outside VS Code; entries with other schemes are skipped.
+ */
+function resolveReplacementsPath(filePath: string, baseFolder: string, workspace: string): string | undefined {
+	if (/^file:/i.test(filePath)) {
+		return fileURLToPath(filePath);
+	}
+	if (/^[a-zA-Z][\w+.-]+:/.test(filePath)) {
+		console.warn(`Only file: URIs are supported outside VS Code, skipping replacements file: ${filePath}`);
+		return undefined;
+	}
+
+	const workspaceFolderVariable = /^\$\{workspaceFolder(?::([^}]+))?\}[\\/]?(.*)$/.exec(filePath);
+	if (workspaceFolderVariable) {
+		const [, name, rest] = workspaceFolderVariable;
+		if (name !== undefined && name !== path.basename(workspace)) {
+			console.warn(`Workspace folder ${name} not found, skipping replacements file: ${filePath}`);
+			return undefined;
+		}
+		return rest ? path.join(workspace, expandVariables(rest)) : workspace;
+	}
+
+	return path.resolve(baseFolder, expandVariables(filePath));
+}
+
+function printProblems(location: string, text: string, arrayOffset: number, problems: ValidationProblem[]): void {
+	for (const problem of locateProblems(text, arrayOffset, problems)) {
+		console.error(`${formatLocation(displayPath(location), text, problem.start)}: ${problem.severity}: ${problem.message}`);
+		if (problem.severity === 'error') {
+			hasConfigurationErrors = true;
+		}
+	}
+}
+
+/**
+ * Get the path of a file relative to the current folder, for output
+ */
+function displayPath(filePath: string): string {
+	return path.relative(process.cwd(), filePath) || filePath;
+}
+
+/**
+ * Format an offset in a file as `path:line:column`, with one-based lines and columns
+ */
+function formatLocation(filePath: string, text: string, offset: number): string {
+	const before = text.substring(0, offset);
+	const line = before.split('\n').length;
+	const column = offset - before.lastIndexOf('\n');
+	return `${filePath}:${line}:${column}`;
+}
+
+/**
+ * Find the files under the given paths, skipping excluded folders and files
+ */
+async function findFiles(paths: string[], workspace: string, exclude: string[]): Promise<string[]> {
+	const isExcluded = (filePath: string) => {
+		const relativePath = path.relative(workspace, filePath).replace(/\\/g, '/');
+		return skippedFolders.includes(path.basename(filePath)) || exclude.some(glob => matchesGlob(relativePath, glob));
+	};
+
+	const files: string[] = [];
+	const visit = async (filePath: string, explicit: boolean) => {
+		const stat = await fs.promises.stat(filePath);
+		if (!explicit && isExcluded(filePath)) {
+			return;
+		}
+		if (stat.isDirectory()) {
+			const entries = await fs.promises.readdir(filePath, { withFileTypes: true });
+			for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+				// Symbolic links are skipped, as they can lead outside the workspace or loop
+				if (entry.isDirectory() || entry.isFile()) {
+					await visit(path.join(filePath, entry.name), false);
+				}
+			}
+		} else if (stat.isFile()) {
+			files.push(filePath);
+		}
+	};
+
+	for (const filePath of paths) {
+		try {
+			await visit(filePath, true);
+		} catch (error) {
+			throw new CliError(`Couldn't read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+	return files;
+}
+
+/**
+ * Get the language ID of a file, from `files.associations` or its extension
+ */
+function getLanguageId(relativePath: string, associations: Record<string, unknown>): string {
+	for (const [glob, languageId] of Object.entries(associations)) {
+		if (typeof languageId === 'string' && matchesGlob(relativePath, glob)) {
+			return languageId;
+		}
+	}
+	return languageIds[path.extname(relativePath).toLowerCase()] ?? 'plaintext';
+}
+
+async function main(args: string[]): Promise<number> {
+	const options = parseArguments(args);
+	if (!options) {
+		console.log(usage);
+		return 0;
+	}
+
+	setWarningHandler(message => console.warn(message));
+	const settings = await readSettings(options.workspace);
+	const replacements = await loadReplacements(options.workspace, settings);
+	if (hasConfigurationErrors) {
+		console.error('Fix the replacement configuration errors above and try again.');
+		return exitError;
+	}
+	if (replacements.length === 0) {
+		console.log('No replacements configured.');
+		return 0;
+	}
+
+	const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+	const associations = isObject(settings.associations) ? settings.associations : {};
+	const exclude = isObject(settings.exclude)
+		? Object.entries(settings.exclude).filter(([, enabled]) => enabled === true).map(([glob]) => glob)
+		: [];
+	const files = await findFiles(options.paths.length > 0 ? options.paths : [options.workspace], options.workspace, exclude);
+	const workspaceFolder = { path: options.workspace, name: path.basename(options.workspace) };
+	const skipFiles = Array.isArray(settings.skipFiles) ? settings.skipFiles.filter(glob => typeof glob === 'string') : [];
+	const maxFileSize = typeof settings.maxFileSize === 'number' ? settings.maxFileSize : defaultMaxFileSize;
+	const regexTimeout = typeof settings.regexTimeout === 'number' ? settings.regexTimeout : defaultRegexTimeout;
+
+	let changedFiles = 0;
+	let replacementCount = 0;
+	let abortedCount = 0;
+	for (const filePath of files.filter(file => !configurationFiles.has(file))) {
+		const relativePath = path.relative(options.workspace, filePath).replace(/\\/g, '/');
+		const languageId = getLanguageId(relativePath, associations);
+		const applicable = replacements.filter(replacement => matchesFilters(replacement, relativePath, languageId));
+		if (applicable.length === 0 || skipFiles.some(glob => matchesGlob(relativePath, glob))) {
+			continue;
+		}
+
+		const { size } = await fs.promises.stat(filePath);
+		if (maxFileSize > 0 && size > maxFileSize * 1024) {
+			console.warn(`${displayPath(filePath)}: Skipped, as it is larger than betterReplaceOnSave.maxFileSize (${maxFileSize} KB)`);
+			continue;
+		}
+		const content = await fs.promises.readFile(filePath);
+		if (content.subarray(0, 8000).includes(0)) {
+			continue; // Binary file
+		}
+		const text = content.toString('utf8');
+		const aborted: string[] = [];
+		const context = {
+			languageId,
+			variables: createReplacementVariables(filePath, relativePath, workspaceFolder),
+			timeout: regexTimeout > 0 ? regexTimeout : undefined,
+			aborted,
+		};
+
+		if (options.check) {
+			const edits = computeReplacementEdits(text, applicable, context)
+				.filter(edit => text.substring(edit.start, edit.end) !== edit.text);
+			for (const edit of edits) {
+				const original = text.substring(edit.start, edit.end);
+				console.log(`${formatLocation(displayPath(filePath), text, edit.start)}: Replace "${original}" with "${edit.text}" (${edit.labels.join(', ')})`);
+			}
+			replacementCount += edits.length;
+			changedFiles += edits.length > 0 ? 1 : 0;
+		} else {
+			const counts = new Map<string, number>();
+			const newText = runReplacements(text, applicable, { ...context, counts });
+			if (newText !== text) {
+				await fs.promises.writeFile(filePath, newText, 'utf8');
+				const count = [...counts.values()].reduce((sum, value) => sum + value, 0);
+				console.log(`${displayPath(filePath)}: ${count} replacement(s)`);
+				replacementCount += count;
+				changedFiles++;
+			}
+		}
+
+		for (const label of aborted) {
+			console.error(`${displayPath(filePath)}: warning: Replacement "${label}" was aborted, as its regex ran for longer than betterReplaceOnSave.regexTimeout`);
+		}
+		abortedCount += aborted.length;
+	}
+
+	if (abortedCount > 0) {
+		console.error(`${abortedCount} replacement(s) were aborted, so some replacements may be missing.`);
+	}
+	const exitCode = abortedCount > 0 ? exitError : 0;
+
+	if (options.check) {
+		if (replacementCount > 0) {
+			console.log(`${replacementCount} replacement(s) would be made in ${changedFiles} file(s).`);
+			return abortedCount > 0 ? exitError : exitReplacementsFound;
+		}
+		console.log('No replacements would be made.');
+		return exitCode;
+	}
+	console.log(changedFiles > 0 ? `Made ${replacementCount} replacement(s) in ${changedFiles} file(s).` : 'No replacements were made.');
+	return exitCode;
+}
+
+main(process.argv.slice(2)).then(code => {
+	process.exitCode = code;
+}, error => {
+	if (error instanceof CliError) {
+		console.error(error.message);
+	} else {
+		console.error(error);
+	}
+	process.exitCode = exitError;
+});
@@ -0,0 +1,86 @@
+// directives.ts
+
+/**
+ * Inline directives that disable replacements, written in a comment in any language:
+ * - `better-replace-on-save: disable` -> disables replacements for the whole file
+ * - `better-replace-on-save: disable-line` -> disables replacements on the same line
+ * - `better-replace-on-save: disable-next-line` -> disables replacements on the following line
+ * Each can be followed by replacement IDs (separated by spaces or commas) to only
+ * disable those replacements.
+ */
+
+export interface Directive {
+	kind: 'disable' | 'disable-line' | 'disable-next-line';
+	line: number;  // Zero-based line the directive is written on
+	ids?: string[];  // Replacement IDs the directive applies to; undefined for all
+}
+
+const directivePrefix = 'better-replace-on-save:';
+const directivePattern = /better-replace-on-save:[ \t]*(disable-next-line|disable-line|disable)\b([^\n]*)/g;
+
+/**
+ * Parse the directives in a text, along with the offsets at which each line starts
+ */
+export function parseDirectives(text: string): { directives: Directive[]; lineStarts: number[] } {
+	if (!text.includes(directivePrefix)) {
+		return { directives: [], lineStarts: [] };
+	}
+
+	const lineStarts = [0];
+	for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+		lineStarts.push(i + 1);
+	}
+
+	const directives = [...text.matchAll(directivePattern)].map(match => {
+		// IDs are the words after the directive, up to the end of the comment
+		const ids = match[2]
+			.replace(/(\*\/|-->|#}|%}).*$/, '')
+			.split(/[\s,]+/)
+			.filter(id => id.length > 0);
+		return {
+			kind: match[1] as Directive['kind'],
+			line: lineAt(lineStarts, match.index),
+			ids: ids.length > 0 ? ids : undefined,
+		};
+	});
+
+	return { directives, lineStarts };
+}
+
+/**
+ * Find the zero-based line containing an offset
+ */
+export function lineAt(lineStarts: number[], offset: number): number {
+	let low = 0;
+	let high = lineStarts.length - 1;
+	while (low < high) {
+		const middle = Math.floor((low + high + 1) / 2);
+		if (lineStarts[middle] <= offset) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return low;
+}
+
+function appliesTo(directive: Directive, id: string | undefined): boolean {
+	return directive.ids === undefined || (id !== undefined && directive.ids.includes(id));
+}
+
+/**
+ * Check whether a replacement is disabled for the whole file
+ */
+export function isDisabledForFile(directives: Directive[], id: string | undefined): boolean {
+	return directives.some(directive => directive.kind === 'disable' && appliesTo(directive, id));
+}
+
+/**
+ * Check whether a replacement is disabled on a line
+ */
+export function isDisabledOnLine(directives: Directive[], id: string | undefined, line: number): boolean {
+	return directives.some(directive => appliesTo(directive, id) && (
+		(directive.kind === 'disable-line' && directive.line === line) ||
+		(directive.kind === 'disable-next-line' && directive.line === line - 1)
+	));
+}
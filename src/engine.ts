@@ -0,0 +1,1033 @@
+// engine.ts
+import * as path from 'path';
+import * as os from 'os';
+import { isDisabledForFile, isDisabledOnLine, lineAt, parseDirectives } from './directives';
+import { ParseError, getReplacementsFileFormat, parseReplacementsFile } from './fileFormats';
+import { findArrayElementOffsets, findPropertyOffsets, findRootOffset, skipValue } from './jsonLocations';
+import { ReplacementScope, isInScope, replacementScopes, tokenizeScopes } from './scopes';
+import { matchAllWithTimeout, testWithTimeout } from './regexRunner';
+import { findStructuralMatches, validateStructuralReplacement } from './structural';
+import { expandReplacementTemplate, findUnknownTransforms, transformNames } from './templates';
+
+/**
+ * The replacement engine: loading, validating and running replacements. It doesn't
+ * depend on the VS Code API, so the command line interface can use it too.
+ */
+
+export interface ReplacementConfig {
+	id?: string;  // Make id optional with ? syntax instead of string | undefined
+	search: string;
+	replace: string;
+	languages?: string[];
+	group?: string;  // Name of a group of replacements that can be enabled, disabled and applied together
+	order?: number;  // Lower values run first; rules without an order keep their configured position at 0
+	flags?: string;  // Extra RegExp flags (i, m, s, u, v); 'g' is always applied
+	literal?: boolean;  // Treat search as plain text rather than a regex
+	structural?: boolean;  // Treat search as a TypeScript/JavaScript code pattern with $METAVARIABLES rather than a regex
+	maxReplacements?: number;  // Maximum number of matches replaced per run
+	include?: string[];  // Globs matched against the workspace-relative path; the file must match one
+	exclude?: string[];  // Globs matched against the workspace-relative path; the file must match none
+	scope?: ReplacementScope | ReplacementScope[];  // Only replace matches inside code, comments and/or strings
+	ifMatches?: string;  // Only run if this regex matches somewhere in the document
+	unlessMatches?: string;  // Don't run if this regex matches somewhere in the document
+	description?: string;  // Explains the replacement; used as the diagnostic message in lint mode
+	severity?: ReplacementSeverity;  // Severity of the replacement's diagnostics in lint mode
+	triggers?: ReplacementTrigger[];  // When the replacement runs automatically; defaults to ['save']
+	tests?: ReplacementTest[];  // Examples checked by "Run Replacement Rule Tests"
+}
+
+/**
+ * An example of what a replacement does: running it on `input` must produce `output`
+ */
+export interface ReplacementTest {
+	input: string;
+	output: string;
+}
+
+export type ReplacementSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+export const replacementSeverities: ReplacementSeverity[] = ['error', 'warning', 'information', 'hint'];
+
+export type ReplacementTrigger = 'save' | 'type' | 'paste' | 'create';
+
+export const replacementTriggers: ReplacementTrigger[] = ['save', 'type', 'paste', 'create'];
+
+/**
+ * A range of offsets in a text, from `start` (inclusive) to `end` (exclusive)
+ */
+export interface OffsetRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Information about the document replacements run on
+ */
+export interface ReplacementContext {
+	languageId?: string;
+	counts?: Map<string, number>;  // Collects the number of matches replaced, by replacement label
+	variables?: Record<string, string>;  // Values of ${variable}s in replacement strings
+	ranges?: OffsetRange[];  // Only replace matches that lie entirely within one of these ranges
+	timeout?: number;  // Milliseconds each regex may run for before its replacement is aborted; unlimited if not set
+	aborted?: string[];  // Collects the labels of replacements aborted because a regex ran out of time
+}
+
+// Default time limit for a single regex, in milliseconds
+export const defaultRegexTimeout = 1000;
+
+// Default size above which files are skipped, in kilobytes
+export const defaultMaxFileSize = 1024;
+
+// Compiled RegExps by flags and source, cleared when replacements are reloaded
+const regExpCache = new Map<string, RegExp>();
+
+// Expected type of each ReplacementConfig property, used for validation
+const replacementPropertyTypes: Record<string, 'string' | 'number' | 'boolean' | 'string[]' | 'string | string[]' | 'object[]'> = {
+	id: 'string',
+	search: 'string',
+	replace: 'string',
+	languages: 'string[]',
+	group: 'string',
+	order: 'number',
+	flags: 'string',
+	literal: 'boolean',
+	structural: 'boolean',
+	maxReplacements: 'number',
+	include: 'string[]',
+	exclude: 'string[]',
+	scope: 'string | string[]',
+	ifMatches: 'string',
+	unlessMatches: 'string',
+	description: 'string',
+	severity: 'string',
+	triggers: 'string[]',
+	tests: 'object[]',
+};
+
+/**
+ * The object form of a replacements file
+ */
+interface ReplacementsFile {
+	extends?: string | string[];  // Files whose replacements run before this file's own
+	include?: string | string[];  // Files whose replacements run after this file's own
+	replacements?: unknown[];
+	overrides?: Record<string, unknown>;  // Changes to extended or included replacements by ID; false disables one
+}
+
+const replacementsFileProperties = ['extends', 'include', 'replacements', 'overrides'];
+
+/**
+ * A problem found while validating replacements
+ */
+export interface ValidationProblem {
+	message: string;
+	severity: 'error' | 'warning';
+	index?: number;  // Index of the offending replacement in its source array; undefined for the whole source
+	property?: string;  // Offending property of that replacement
+	offset?: number;  // Exact offset in the source text, when known (e.g. JSON parse errors)
+}
+
+/**
+ * A validation problem located in the text it was found in
+ */
+export interface LocatedProblem {
+	message: string;
+	severity: ValidationProblem['severity'];
+	start: number;
+	end: number;
+}
+
+// Receives warnings, e.g. about undefined environment variables. The extension logs them to its output channel.
+let warn: (message: string) => void = message => console.warn(message);
+
+export function setWarningHandler(handler: (message: string) => void): void {
+	warn = handler;
+}
+
+/**
+ * Expand variables in file paths
+ * Supports:
+ * - ~/path -> {userHome}/path
+ * - ${userHome}/path -> {userHome}/path
+ * - ${env:VARIABLE_NAME}/path -> value of environment variable
+ */
+export function expandVariables(filePath: string): string {
+	let expandedPath = filePath;
+
+	// Handle ~/path syntax
+	if (expandedPath.startsWith('~/')) {
+		expandedPath = path.join(os.homedir(), expandedPath.slice(2));
+	}
+	// Handle ${userHome} variable
+	else if (expandedPath.includes('${userHome}')) {
+		expandedPath = expandedPath.replace(/\$\{userHome\}/g, os.homedir());
+	}
+
+	// Handle ${env:VARIABLE_NAME} variables
+	const envVarRegex = /\$\{env:([^}]+)\}/g;
+	expandedPath = expandedPath.replace(envVarRegex, (match, varName) => {
+		const envValue = process.env[varName];
+		if (envValue === undefined) {
+			warn(`Environment variable ${varName} is not defined, keeping original path: ${match}`);
+			return match; // Keep original if environment variable is not found
+		}
+		return envValue;
+	});
+
+	// Normalize the path to handle any consecutive slashes
+	expandedPath = path.normalize(expandedPath);
+
+	return expandedPath;
+}
+
+/**
+ * How replacements files are read and where their problems are reported. Files are
+ * identified by a location string: a URI in the extension, and a path in the CLI.
+ */
+export interface ReplacementsFileHost {
+	// Read a file, returning undefined if it doesn't exist
+	readFile(location: string): Promise<string | undefined>;
+	// Resolve a path in an `extends` or `include` against the location of the file that references it
+	resolveReference(filePath: string, referencingLocation: string): string | undefined;
+	// Report problems found in a file. `arrayOffset` is the offset of the replacements array in `text`.
+	reportProblems(location: string, text: string, arrayOffset: number, problems: ValidationProblem[]): void;
+}
+
+/**
+ * Load a replacements file, which is either an array of replacements or an object that can also
+ * extend and include other files and override their replacements. `ancestors` are the files
+ * that (directly or indirectly) include this one, used to detect circular references. `loaded`
+ * holds the replacements of the files already loaded from the same root file, so a file that is
+ * referenced twice (e.g. a shared base file) is only loaded once.
+ */
+export async function loadReplacementsFile(
+	location: string,
+	host: ReplacementsFileHost,
+	seenIds: Set<string>,
+	ancestors: string[] = [],
+	loaded = new Map<string, ReplacementConfig[]>()
+): Promise<ReplacementConfig[]> {
+	// Read and parse file
+	const fileContent = await host.readFile(location);
+	if (fileContent === undefined) {
+		return [];
+	}
+	let parsed: unknown;
+	try {
+		parsed = parseReplacementsFile(fileContent, getReplacementsFileFormat(location.replace(/[?#].*$/, '')));
+	} catch (error) {
+		if (!(error instanceof ParseError)) {
+			throw error;
+		}
+		host.reportProblems(location, fileContent, 0, [{
+			message: error.message,
+			severity: 'error',
+			offset: error.offset,
+		}]);
+		return [];
+	}
+
+	const rootOffset = findRootOffset(fileContent);
+	if (Array.isArray(parsed)) {
+		// Validate each replacement object
+		const { valid, problems } = validateReplacements(parsed, seenIds);
+		host.reportProblems(location, fileContent, rootOffset, problems);
+		return valid;
+	}
+
+	if (!isPlainObject(parsed)) {
+		host.reportProblems(location, fileContent, rootOffset, [{
+			message: 'Invalid replacements file format (expected an array of replacements, or an object with "replacements")',
+			severity: 'error',
+		}]);
+		return [];
+	}
+
+	// Problems with the file's own properties are reported at the property, or at the start of the file
+	const file = parsed as ReplacementsFile;
+	const propertyOffset = (key: string) => findPropertyOffsets(fileContent, rootOffset, key)?.keyOffset ?? rootOffset;
+	const reportFileProblem = (message: string, key: string, severity: ValidationProblem['severity'] = 'error') =>
+		host.reportProblems(location, fileContent, rootOffset, [{ message, severity, offset: propertyOffset(key) }]);
+
+	for (const key of Object.keys(file)) {
+		if (!replacementsFileProperties.includes(key)) {
+			reportFileProblem(`Unknown property "${key}"`, key, 'warning');
+		}
+	}
+
+	const loadReferencedFiles = async (key: 'extends' | 'include'): Promise<ReplacementConfig[]> => {
+		const value = file[key];
+		if (value === undefined) {
+			return [];
+		}
+		if (!matchesPropertyType(value, 'string | string[]')) {
+			reportFileProblem(`Property "${key}" must be of type string | string[]`, key);
+			return [];
+		}
+
+		const replacements: ReplacementConfig[] = [];
+		for (const filePath of Array.isArray(value) ? value : [value]) {
+			const referencedLocation = host.resolveReference(filePath, location);
+			if (referencedLocation === undefined) {
+				continue;
+			}
+			if (referencedLocation === location || ancestors.includes(referencedLocation)) {
+				reportFileProblem(`Circular reference to ${filePath}`, key);
+				continue;
+			}
+			let referenced = loaded.get(referencedLocation);
+			if (!referenced) {
+				referenced = await loadReplacementsFile(referencedLocation, host, seenIds, [...ancestors, location], loaded);
+				loaded.set(referencedLocation, referenced);
+			}
+			replacements.push(...referenced);
+		}
+		return replacements;
+	};
+
+	// Extended files run before this file's replacements, and included files after them
+	const extended = await loadReferencedFiles('extends');
+
+	let own: ReplacementConfig[] = [];
+	if (file.replacements !== undefined) {
+		if (Array.isArray(file.replacements)) {
+			const { valid, problems } = validateReplacements(file.replacements, seenIds);
+			const arrayOffset = findPropertyOffsets(fileContent, rootOffset, 'replacements')?.valueOffset ?? rootOffset;
+			host.reportProblems(location, fileContent, arrayOffset, problems);
+			own = valid;
+		} else {
+			reportFileProblem('Property "replacements" must be an array', 'replacements');
+		}
+	}
+
+	const included = await loadReferencedFiles('include');
+
+	// Overrides change or disable inherited replacements by ID
+	let overrides = new Map<string, ReplacementConfig | undefined>();
+	if (file.overrides !== undefined) {
+		if (isPlainObject(file.overrides)) {
+			const overridesOffset = findPropertyOffsets(fileContent, rootOffset, 'overrides')?.valueOffset ?? rootOffset;
+			const resolved = resolveOverrides(file.overrides, [...extended, ...included], fileContent, overridesOffset);
+			host.reportProblems(location, fileContent, overridesOffset, resolved.problems);
+			overrides = resolved.overrides;
+		} else {
+			reportFileProblem('Property "overrides" must be an object', 'overrides');
+		}
+	}
+	const applyOverrides = (replacements: ReplacementConfig[]) => replacements.flatMap(replacement => {
+		if (replacement.id === undefined || !overrides.has(replacement.id)) {
+			return [replacement];
+		}
+		const override = overrides.get(replacement.id);
+		return override ? [override] : [];
+	});
+
+	// A file referenced through two others only runs its replacements the first time
+	return [...new Set([...applyOverrides(extended), ...own, ...applyOverrides(included)])];
+}
+
+/**
+ * Find the ranges of validation problems in the text they were found in. `arrayOffset` is
+ * the offset of the replacements array in `text`, used to locate individual replacements.
+ */
+export function locateProblems(text: string, arrayOffset: number, problems: ValidationProblem[]): LocatedProblem[] {
+	const elementOffsets = findArrayElementOffsets(text, arrayOffset);
+	return problems.map(problem => {
+		let start = problem.offset ?? arrayOffset;
+		let end = problem.offset ?? arrayOffset;
+		let message = problem.message;
+		if (problem.index !== undefined && elementOffsets[problem.index] === undefined) {
+			// The replacement can't be located (e.g. in a YAML file), so say which one it is
+			message = `Replacement ${problem.index + 1}: ${message}`;
+		} else if (problem.index !== undefined) {
+			const elementOffset = elementOffsets[problem.index];
+			const property = problem.property ? findPropertyOffsets(text, elementOffset, problem.property) : undefined;
+			if (property) {
+				start = property.keyOffset;
+				end = skipValue(text, property.valueOffset);
+			} else {
+				start = elementOffset;
+				end = skipValue(text, elementOffset);
+			}
+		}
+		return { message, severity: problem.severity, start, end };
+	});
+}
+
+/**
+ * Resolve the `overrides` of a replacements file against the replacements it inherits. Each
+ * override maps an ID to the properties to change, or to false to disable the replacement
+ * (represented as undefined). Invalid overrides are skipped, keeping the inherited replacement.
+ */
+function resolveOverrides(
+	overrides: Record<string, unknown>,
+	inherited: ReplacementConfig[],
+	text: string,
+	overridesOffset: number
+): { overrides: Map<string, ReplacementConfig | undefined>; problems: ValidationProblem[] } {
+	const resolved = new Map<string, ReplacementConfig | undefined>();
+	const problems: ValidationProblem[] = [];
+
+	for (const [id, override] of Object.entries(overrides)) {
+		const property = findPropertyOffsets(text, overridesOffset, id);
+		const offset = property?.keyOffset ?? overridesOffset;
+
+		const replacement = inherited.find(other => other.id === id);
+		if (!replacement) {
+			problems.push({ message: `No inherited replacement with id "${id}"`, severity: 'warning', offset });
+			continue;
+		}
+		if (override === false) {
+			resolved.set(id, undefined);
+			continue;
+		}
+		if (!isPlainObject(override)) {
+			problems.push({ message: 'Override must be an object of properties to change, or false to disable the replacement', severity: 'error', offset });
+			continue;
+		}
+
+		const { valid, problems: overrideProblems } = validateReplacements([{ ...replacement, ...override, id }], new Set());
+		// Problems with inherited properties are already reported in the file they come from
+		for (const problem of overrideProblems.filter(problem => problem.property === undefined || problem.property in override)) {
+			const propertyOffset = problem.property && property ? findPropertyOffsets(text, property.valueOffset, problem.property)?.keyOffset : undefined;
+			problems.push({ message: problem.message, severity: problem.severity, offset: propertyOffset ?? offset });
+		}
+		if (valid.length > 0) {
+			resolved.set(id, valid[0]);
+		}
+	}
+
+	return { overrides: resolved, problems };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate raw replacement objects, returning the usable ones and any problems found.
+ * Invalid replacements are skipped so they don't prevent the others from running.
+ */
+export function validateReplacements(replacements: unknown[], seenIds: Set<string>): { valid: ReplacementConfig[]; problems: ValidationProblem[] } {
+	const valid: ReplacementConfig[] = [];
+	const problems: ValidationProblem[] = [];
+
+	replacements.forEach((replacement, index) => {
+		const error = (message: string, property?: string) =>
+			problems.push({ message, severity: 'error', index, property });
+
+		if (typeof replacement !== 'object' || replacement === null || Array.isArray(replacement)) {
+			error('Replacement must be an object with "search" and "replace" properties');
+			return;
+		}
+
+		let isValid = true;
+		const entries = Object.entries(replacement);
+		for (const [key, value] of entries) {
+			const expectedType = replacementPropertyTypes[key];
+			if (expectedType === undefined) {
+				problems.push({ message: `Unknown property "${key}"`, severity: 'warning', index, property: key });
+			} else if (!matchesPropertyType(value, expectedType)) {
+				error(`Property "${key}" must be of type ${expectedType}`, key);
+				isValid = false;
+			}
+		}
+
+		const config = replacement as ReplacementConfig;
+		for (const key of ['search', 'replace'] as const) {
+			if (config[key] === undefined) {
+				error(`Replacement is missing a "${key}" string`);
+				isValid = false;
+			}
+		}
+		if (!isValid) {
+			return;
+		}
+
+		if (config.flags !== undefined && !/^[imsuv]*$/.test(config.flags)) {
+			error(`Invalid flags "${config.flags}" (allowed: i, m, s, u, v)`, 'flags');
+			return;
+		}
+
+		if (config.structural) {
+			// Regex options have no effect on code patterns, so using them is probably a mistake
+			const regexOption = (['flags', 'literal'] as const).find(key => config[key] !== undefined);
+			if (regexOption !== undefined) {
+				error(`Property "${regexOption}" can't be used with structural replacements`, regexOption);
+				return;
+			}
+		} else {
+			for (const transform of findUnknownTransforms(config.replace)) {
+				problems.push({
+					message: `Unknown transform "${transform}" (available: ${transformNames.join(', ')})`,
+					severity: 'warning',
+					index,
+					property: 'replace',
+				});
+			}
+		}
+
+		// Replacement files aren't checked against the settings schema, which requires this
+		if (config.maxReplacements !== undefined && !(Number.isInteger(config.maxReplacements) && config.maxReplacements >= 1)) {
+			error(`Invalid maxReplacements ${config.maxReplacements} (must be an integer of at least 1)`, 'maxReplacements');
+			return;
+		}
+
+		if (config.severity !== undefined && !replacementSeverities.includes(config.severity)) {
+			error(`Invalid severity "${config.severity}" (allowed: ${replacementSeverities.join(', ')})`, 'severity');
+			return;
+		}
+
+		for (const key of ['include', 'exclude'] as const) {
+			const invalidGlob = config[key]?.find(glob => !isValidGlob(glob));
+			if (invalidGlob !== undefined) {
+				error(`Invalid glob "${invalidGlob}"`, key);
+				return;
+			}
+		}
+
+		const invalidTrigger = config.triggers?.find(trigger => !replacementTriggers.includes(trigger));
+		if (invalidTrigger !== undefined) {
+			error(`Invalid trigger "${invalidTrigger}" (allowed: ${replacementTriggers.join(', ')})`, 'triggers');
+			return;
+		}
+
+		const invalidTest = config.tests?.findIndex(test => typeof test.input !== 'string' || typeof test.output !== 'string') ?? -1;
+		if (invalidTest !== -1) {
+			error(`Test ${invalidTest + 1} must have "input" and "output" strings`, 'tests');
+			return;
+		}
+
+		const invalidScope = getScopes(config)?.find(scope => !replacementScopes.includes(scope));
+		if (invalidScope !== undefined) {
+			error(`Invalid scope "${invalidScope}" (allowed: ${replacementScopes.join(', ')})`, 'scope');
+			return;
+		}
+
+		if (config.structural) {
+			const structuralProblem = validateStructuralReplacement(config.search, config.replace);
+			if (structuralProblem) {
+				error(structuralProblem.message, structuralProblem.property);
+				return;
+			}
+		} else {
+			let searchValue: RegExp;
+			try {
+				searchValue = buildSearchRegExp(config);
+			} catch (e) {
+				error(e instanceof Error ? e.message : String(e), 'search');
+				return;
+			}
+			// Replacements that only run on paste or file creation can insert text, e.g. a header in an empty file
+			if ((hasTrigger(config, 'save') || hasTrigger(config, 'type')) && searchValue.test('')) {
+				error('Search pattern matches an empty string, so the replacement would be inserted again on every run', 'search');
+				return;
+			}
+		}
+
+		let invalidCondition = false;
+		for (const key of ['ifMatches', 'unlessMatches'] as const) {
+			try {
+				buildConditionRegExp(config, key);
+			} catch (e) {
+				error(e instanceof Error ? e.message : String(e), key);
+				invalidCondition = true;
+			}
+		}
+		if (invalidCondition) {
+			return;
+		}
+
+		if (config.id !== undefined) {
+			if (seenIds.has(config.id)) {
+				error(`Duplicate replacement id "${config.id}"`, 'id');
+				return;
+			}
+			seenIds.add(config.id);
+		}
+
+		valid.push(config);
+	});
+
+	return { valid, problems };
+}
+
+function matchesPropertyType(value: unknown, expectedType: string): boolean {
+	if (expectedType === 'string | string[]') {
+		return typeof value === 'string' || matchesPropertyType(value, 'string[]');
+	}
+	if (expectedType === 'string[]') {
+		return Array.isArray(value) && value.every(item => typeof item === 'string');
+	}
+	if (expectedType === 'object[]') {
+		return Array.isArray(value) && value.every(isPlainObject);
+	}
+	return typeof value === expectedType;
+}
+
+/**
+ * Create the variables available in replacement strings for a file, given its path
+ * relative to the workspace and the workspace folder it is in, if any
+ */
+export function createReplacementVariables(filePath: string, relativeFile: string, folder?: { path: string; name: string }): Record<string, string> {
+	const now = new Date();
+	const pad = (value: number) => String(value).padStart(2, '0');
+
+	return {
+		file: filePath,
+		fileBasename: path.basename(filePath),
+		fileBasenameNoExtension: path.parse(filePath).name,
+		fileExtname: path.extname(filePath),
+		fileDirname: path.dirname(filePath),
+		relativeFile,
+		workspaceFolder: folder?.path ?? '',
+		workspaceFolderBasename: folder?.name ?? '',
+		date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+		year: String(now.getFullYear()),
+	};
+}
+
+/**
+ * Check whether a replacement runs automatically on the given trigger. Replacements without
+ * `triggers` run on save. Commands and the command line run replacements whatever their triggers.
+ */
+export function hasTrigger(replacement: ReplacementConfig, trigger: ReplacementTrigger): boolean {
+	return (replacement.triggers ?? ['save']).includes(trigger);
+}
+
+/**
+ * Check whether a replacement's language and include/exclude filters allow it to run on a
+ * file, given its workspace-relative path. The language is only checked when it is given.
+ */
+export function matchesFilters(replacement: ReplacementConfig, relativePath: string, languageId?: string): boolean {
+	if (languageId !== undefined && replacement.languages && !replacement.languages.includes(languageId)) {
+		return false;
+	}
+
+	const filePath = relativePath.replace(/\\/g, '/');
+	if (replacement.include && !replacement.include.some(glob => matchesGlob(filePath, glob))) {
+		return false;
+	}
+	if (replacement.exclude && replacement.exclude.some(glob => matchesGlob(filePath, glob))) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Match a forward-slash separated path against a glob pattern.
+ * Patterns without a `/` match the file name in any folder (e.g. `*.d.ts`),
+ * otherwise the whole path must match (e.g. `vendor/**`).
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+	const target = glob.includes('/') ? filePath : path.posix.basename(filePath);
+	return globToRegExp(glob).test(target);
+}
+
+function isValidGlob(glob: string): boolean {
+	try {
+		globToRegExp(glob);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Convert a glob pattern to a RegExp. Supports `*`, `**`, `?`, `{a,b}` and `[abc]` / `[!abc]`.
+ */
+function globToRegExp(glob: string): RegExp {
+	let source = '';
+	let inGroup = false;
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				i++;
+				if (glob[i + 1] === '/') {
+					// `**/` matches zero or more folders
+					i++;
+					source += '(?:.*/)?';
+				} else {
+					source += '.*';
+				}
+			} else {
+				source += '[^/]*';
+			}
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{' && !inGroup && glob.includes('}', i + 1)) {
+			// An unclosed or nested `{` matches literally
+			inGroup = true;
+			source += '(?:';
+		} else if (char === '}' && inGroup) {
+			inGroup = false;
+			source += ')';
+		} else if (char === ',' && inGroup) {
+			source += '|';
+		} else if (char === '[' && glob.indexOf(']', i + 1) > i + 1) {
+			const close = glob.indexOf(']', i + 1);
+			const chars = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+			source += chars.startsWith('!') ? `[^${chars.slice(1)}]` : `[${chars}]`;
+			i = close;
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get a human-readable name for a replacement: its ID, or its search and replace strings
+ */
+export function getReplacementLabel(replacement: ReplacementConfig): string {
+	return replacement.id ?? `${replacement.search} → ${replacement.replace}`;
+}
+
+/**
+ * Sort replacements by their `order` field. The sort is stable, so rules with
+ * the same order (or none) run in the order they were configured.
+ */
+export function sortReplacements(replacements: ReplacementConfig[]): ReplacementConfig[] {
+	return [...replacements].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+/**
+ * Run replacements as a pipeline: each rule operates on the output of the previous one.
+ */
+export function runReplacements(text: string, replacements: ReplacementConfig[], context: ReplacementContext = {}): string {
+	// Ranges move as earlier replacements change the text, so track them on a copy
+	context = { ...context, ranges: context.ranges?.map(range => ({ ...range })) };
+
+	let result = text;
+	for (const replacement of sortReplacements(replacements)) {
+		if (replacement.search === undefined) {
+			warn(`Missing search pattern for replacement ${getReplacementLabel(replacement)}`);
+			continue;
+		}
+
+		result = runReplacement(result, replacement, context);
+	}
+	return result;
+}
+
+/**
+ * Apply a single replacement to the text, honouring its flags and match cap.
+ */
+function runReplacement(text: string, replacement: ReplacementConfig, context: ReplacementContext): string {
+	const matches = findReplacementMatches(text, replacement, context);
+	if (context.counts && matches.length > 0) {
+		const label = getReplacementLabel(replacement);
+		context.counts.set(label, (context.counts.get(label) ?? 0) + matches.length);
+	}
+	if (context.ranges) {
+		shiftRanges(context.ranges, matches);
+	}
+
+	let result = '';
+	let lastIndex = 0;
+	for (const match of matches) {
+		result += text.substring(lastIndex, match.start) + match.text;
+		lastIndex = match.end;
+	}
+	return result + text.substring(lastIndex);
+}
+
+/**
+ * Update ranges for the text changes made by a replacement's matches. Matches
+ * only ever lie entirely within a range, so ranges never need to be split.
+ */
+function shiftRanges(ranges: OffsetRange[], matches: ReplacementMatch[]): void {
+	for (const range of ranges) {
+		let startDelta = 0;
+		let endDelta = 0;
+		for (const match of matches) {
+			const delta = match.text.length - (match.end - match.start);
+			const inside = match.start >= range.start && match.end <= range.end;
+			if (!inside && match.end <= range.start) {
+				startDelta += delta;
+				endDelta += delta;
+			} else if (inside) {
+				endDelta += delta;
+			}
+		}
+		range.start += startDelta;
+		range.end += endDelta;
+	}
+}
+
+/**
+ * A single match of a replacement: the range it covers and the text that replaces it
+ */
+export interface ReplacementMatch {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Find the matches of a single replacement in the text, in order
+ */
+export function findReplacementMatches(text: string, replacement: ReplacementConfig, context: ReplacementContext): ReplacementMatch[] {
+	// Conditions and directives are checked against the current text, as earlier replacements may have changed it
+	const ifMatches = buildConditionRegExp(replacement, 'ifMatches');
+	const unlessMatches = buildConditionRegExp(replacement, 'unlessMatches');
+	const ifMatched = ifMatches ? testRegExp(text, ifMatches, context) : true;
+	const unlessMatched = unlessMatches ? testRegExp(text, unlessMatches, context) : false;
+	if (ifMatched === undefined || unlessMatched === undefined) {
+		abortReplacement(replacement, context);
+		return [];
+	}
+	if (!ifMatched || unlessMatched) {
+		return [];
+	}
+
+	const { directives, lineStarts } = parseDirectives(text);
+	if (isDisabledForFile(directives, replacement.id)) {
+		return [];
+	}
+
+	const maxReplacements = replacement.maxReplacements ?? Infinity;
+
+	const scopes = getScopes(replacement);
+	const scopeRanges = scopes ? tokenizeScopes(text, context.languageId ?? '') : undefined;
+
+	const candidates = replacement.structural
+		? findStructuralMatches(text, replacement.search, replacement.replace, context.languageId)
+		: findRegExpMatches(text, replacement, context);
+	if (candidates === undefined) {
+		abortReplacement(replacement, context);
+		return [];
+	}
+	const matches: ReplacementMatch[] = [];
+	for (const match of candidates) {
+		if (matches.length >= maxReplacements) {
+			break;
+		}
+		const { start, end } = match;
+		if (context.ranges && !context.ranges.some(range => start >= range.start && end <= range.end)) {
+			continue;
+		}
+		if (scopes && scopeRanges && !isInScope(scopeRanges, start, end, scopes)) {
+			continue;
+		}
+		if (directives.length > 0 && isDisabledOnLine(directives, replacement.id, lineAt(lineStarts, start))) {
+			continue;
+		}
+		matches.push(match);
+	}
+	return matches;
+}
+
+/**
+ * Find the matches of a replacement's regex in the text, expanding the replace template
+ * for each. Returns undefined if the regex runs out of time.
+ */
+function findRegExpMatches(text: string, replacement: ReplacementConfig, context: ReplacementContext): ReplacementMatch[] | undefined {
+	const regExp = buildSearchRegExp(replacement);
+	const matches = context.timeout ? matchAllWithTimeout(text, regExp, context.timeout) : [...text.matchAll(regExp)];
+	return matches?.map(match => ({
+		start: match.index ?? 0,
+		end: (match.index ?? 0) + match[0].length,
+		text: expandReplacementTemplate(replacement.replace ?? "", match, context.variables),
+	}));
+}
+
+/**
+ * Check whether a condition regex matches the text, returning undefined if it runs out of time
+ */
+function testRegExp(text: string, regExp: RegExp, context: ReplacementContext): boolean | undefined {
+	return context.timeout ? testWithTimeout(text, regExp, context.timeout) : regExp.test(text);
+}
+
+function abortReplacement(replacement: ReplacementConfig, context: ReplacementContext): void {
+	const label = getReplacementLabel(replacement);
+	if (context.aborted && !context.aborted.includes(label)) {
+		context.aborted.push(label);
+	}
+}
+
+/**
+ * An edit to the original text produced by the pipeline, labelled with the
+ * replacements that contributed to it
+ */
+export interface ReplacementEdit extends ReplacementMatch {
+	labels: string[];
+}
+
+/**
+ * Run replacements as a pipeline like `runReplacements`, but return the
+ * individual edits in terms of the original text. Where a replacement matches
+ * text produced by an earlier one, the two are merged into a single edit.
+ */
+export function computeReplacementEdits(text: string, replacements: ReplacementConfig[], context: ReplacementContext = {}): ReplacementEdit[] {
+	// The current text is the concatenation of all segments. Segments without
+	// labels are unchanged spans of the original text.
+	let segments: ReplacementEdit[] = [{ start: 0, end: text.length, text, labels: [] }];
+	context = { ...context, ranges: context.ranges?.map(range => ({ ...range })) };
+
+	for (const replacement of sortReplacements(replacements)) {
+		const label = getReplacementLabel(replacement);
+		const currentText = segments.map(segment => segment.text).join('');
+
+		const matches = findReplacementMatches(currentText, replacement, context);
+		if (context.counts && matches.length > 0) {
+			context.counts.set(label, (context.counts.get(label) ?? 0) + matches.length);
+		}
+		if (context.ranges) {
+			shiftRanges(context.ranges, matches);
+		}
+
+		// Apply matches from last to first, so earlier offsets in the current text stay valid
+		for (const match of [...matches].reverse()) {
+			segments = applyMatchToSegments(segments, match, label);
+		}
+	}
+
+	return segments.filter(segment => segment.labels.length > 0);
+}
+
+function applyMatchToSegments(segments: ReplacementEdit[], match: ReplacementMatch, label: string): ReplacementEdit[] {
+	const before: ReplacementEdit[] = [];
+	const after: ReplacementEdit[] = [];
+	const touched: { segment: ReplacementEdit; offset: number }[] = [];
+
+	let offset = 0;
+	for (const segment of segments) {
+		const segmentEnd = offset + segment.text.length;
+		if (offset < match.end && segmentEnd > match.start) {
+			touched.push({ segment, offset });
+		} else if (segmentEnd <= match.start) {
+			before.push(segment);
+		} else {
+			after.push(segment);
+		}
+		offset = segmentEnd;
+	}
+
+	if (touched.length === 0) {
+		// Insertion between segments
+		const position = before.length > 0 ? before[before.length - 1].end : 0;
+		return [...before, { start: position, end: position, text: match.text, labels: [label] }, ...after];
+	}
+
+	let prefix = '';
+	let suffix = '';
+	let originalStart: number;
+	let originalEnd: number;
+
+	const first = touched[0];
+	const startInFirst = Math.max(0, match.start - first.offset);
+	if (first.segment.labels.length === 0) {
+		// Unchanged original text: split off the part before the match
+		originalStart = first.segment.start + startInFirst;
+		if (startInFirst > 0) {
+			before.push({ start: first.segment.start, end: originalStart, text: first.segment.text.substring(0, startInFirst), labels: [] });
+		}
+	} else {
+		// Text produced by an earlier replacement: absorb the whole edit
+		originalStart = first.segment.start;
+		prefix = first.segment.text.substring(0, startInFirst);
+	}
+
+	const last = touched[touched.length - 1];
+	const endInLast = Math.min(last.segment.text.length, match.end - last.offset);
+	if (last.segment.labels.length === 0) {
+		originalEnd = last.segment.start + endInLast;
+		if (endInLast < last.segment.text.length) {
+			after.unshift({ start: originalEnd, end: last.segment.end, text: last.segment.text.substring(endInLast), labels: [] });
+		}
+	} else {
+		originalEnd = last.segment.end;
+		suffix = last.segment.text.substring(endInLast);
+	}
+
+	const labels = [...new Set([...touched.flatMap(({ segment }) => segment.labels), label])];
+	const merged: ReplacementEdit = { start: originalStart, end: originalEnd, text: prefix + match.text + suffix, labels };
+	return [...before, merged, ...after];
+}
+
+/**
+ * Get the scopes a replacement is restricted to, or undefined if it applies everywhere
+ */
+function getScopes(replacement: ReplacementConfig): ReplacementScope[] | undefined {
+	if (replacement.scope === undefined) {
+		return undefined;
+	}
+	return Array.isArray(replacement.scope) ? replacement.scope : [replacement.scope];
+}
+
+/**
+ * Build the RegExp for a replacement. The global flag is always set; the
+ * sticky flag is dropped because it would stop matching after the first gap.
+ */
+export function buildSearchRegExp(replacement: ReplacementConfig): RegExp {
+	const source = replacement.literal ? escapeRegExp(replacement.search) : replacement.search;
+	const flags = 'g' + (replacement.flags ?? '').replace(/[gy]/g, '');
+	return compileRegExp(source, flags);
+}
+
+/**
+ * Build the RegExp for an `ifMatches` or `unlessMatches` condition, using the
+ * replacement's flags. Returns undefined if the condition isn't set.
+ */
+function buildConditionRegExp(replacement: ReplacementConfig, key: 'ifMatches' | 'unlessMatches'): RegExp | undefined {
+	const condition = replacement[key];
+	if (condition === undefined) {
+		return undefined;
+	}
+	return compileRegExp(condition, (replacement.flags ?? '').replace(/[gy]/g, ''));
+}
+
+/**
+ * Compile a RegExp, reusing the one compiled earlier for the same source and flags.
+ * Global RegExps keep state in `lastIndex`, which `matchAll` copies rather than changes.
+ */
+function compileRegExp(source: string, flags: string): RegExp {
+	const key = `${flags}/${source}`;
+	let regExp = regExpCache.get(key);
+	if (!regExp) {
+		regExp = new RegExp(source, flags);
+		regExpCache.set(key, regExp);
+	}
+	return regExp;
+}
+
+/**
+ * Forget the compiled RegExps, e.g. when replacements are reloaded
+ */
+export function clearRegExpCache(): void {
+	regExpCache.clear();
+}
+
+/**
+ * Escape all RegExp special characters so the string matches literally
+ */
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the smallest single edit that turns `oldText` into `newText`,
+ * by trimming the common prefix and suffix of the two strings.
+ */
+export function computeMinimalEdit(oldText: string, newText: string): { start: number; end: number; replacementText: string } {
+	const maxPrefix = Math.min(oldText.length, newText.length);
+	let prefix = 0;
+	while (prefix < maxPrefix && oldText.charCodeAt(prefix) === newText.charCodeAt(prefix)) {
+		prefix++;
+	}
+
+	const maxSuffix = maxPrefix - prefix;
+	let suffix = 0;
+	while (suffix < maxSuffix &&
+		oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)) {
+		suffix++;
+	}
+
+	return {
+		start: prefix,
+		end: oldText.length - suffix,
+		replacementText: newText.substring(prefix, newText.length - suffix),
+	};
+}
@@ -1,118 +1,254 @@
 // extension.ts
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import {
+	OffsetRange,
+	ReplacementConfig,
+	ReplacementContext,
+	ReplacementSeverity,
+	ReplacementTrigger,
+	ReplacementsFileHost,
+	ValidationProblem,
+	clearRegExpCache,
+	computeMinimalEdit,
+	computeReplacementEdits,
+	createReplacementVariables,
+	defaultMaxFileSize,
+	defaultRegexTimeout,
+	expandVariables,
+	findReplacementMatches,
+	getReplacementLabel,
+	hasTrigger,
+	loadReplacementsFile,
+	locateProblems,
+	matchesFilters,
+	matchesGlob,
+	runReplacements,
+	setWarningHandler,
+	validateReplacements,
+} from './engine';
+import { getModifiedRanges } from './git';
+import { disposeRegExpWorker } from './regexRunner';
+import { getDisabledGroups, registerGroupCommands } from './groups';
+import { parseReplacementsFile } from './fileFormats';
+import { findPropertyOffsets, findRootOffset } from './jsonLocations';
+import { RunTrigger, initializeReporting, logError, logInfo, logWarning, reportAbortedReplacements, reportRun } from './report';
+import { initializeRuleTests, updateRuleTests } from './ruleTests';
 
-export interface ReplacementConfig {
-	id?: string;  // Make id optional with ? syntax instead of string | undefined
-	search: string;
-	replace: string;
-	languages?: string[];
-}
+const diagnosticSeverities: Record<ReplacementSeverity, vscode.DiagnosticSeverity> = {
+	error: vscode.DiagnosticSeverity.Error,
+	warning: vscode.DiagnosticSeverity.Warning,
+	information: vscode.DiagnosticSeverity.Information,
+	hint: vscode.DiagnosticSeverity.Hint,
+};
 
 // Export for testing
-export { expandVariables };
+export type { ReplacementConfig, ReplacementTest } from './engine';
+export { expandVariables, runReplacements, computeReplacementEdits, matchesGlob, validateReplacements } from './engine';
+export { getLastRunReport } from './report';
 
-// Global cache for merged replacements and file watchers
-let cachedReplacements: ReplacementConfig[] = [];
+// Global cache for merged replacements and file watchers. Replacements are cached per
+// workspace folder, keyed by folder URI; '' holds the replacements for files outside any folder.
+let cachedReplacements = new Map<string, ReplacementConfig[]>();
+let replacementGroups: string[] = [];  // Names of all groups, including disabled ones
+let loadedReplacementsFiles = new Map<string, vscode.Uri>();  // Every replacements file loaded, including extended and included ones
+const lastReadReplacementsFiles = new Map<string, string>();  // Text of each replacements file when it was last read, by URI
 let fileWatchers: vscode.FileSystemWatcher[] = [];
+let fileReloadTimer: NodeJS.Timeout | undefined;
+
+// Diagnostics for invalid replacements, and the user settings file they may be reported against
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+let userSettingsUri: vscode.Uri | undefined;
+
+// Diagnostics for pending replacements in lint mode, and the matches behind them by document URI
+let lintDiagnosticCollection: vscode.DiagnosticCollection | undefined;
+const lintMatches = new Map<string, LintMatch[]>();
+const lintTimers = new Map<string, NodeJS.Timeout>();
+const lintAbortedReplacements = new Map<string, Set<string>>();  // Labels of replacements that ran out of time, by document URI
+
+// Pending runs of replacements with the `type` trigger, and documents being edited by one, by document URI
+const typeTimers = new Map<string, NodeJS.Timeout>();
+const typeEditsInProgress = new Set<string>();
 
 /**
- * Expand variables in file paths
- * Supports:
- * - ~/path -> {userHome}/path
- * - ${userHome}/path -> {userHome}/path
- * - ${env:VARIABLE_NAME}/path -> value of environment variable
+ * Resolve a `replacementsFiles` entry to a URI. Entries can be URIs (e.g. `vscode-userdata:/...`),
+ * start with `${workspaceFolder}` or `${workspaceFolder:name}`, or be paths. Relative paths are
+ * resolved against the given workspace folder, or the first workspace folder if there is none.
  */
-function expandVariables(filePath: string): string {
-	let expandedPath = filePath;
+function resolveReplacementsFileUri(filePath: string, folder?: vscode.WorkspaceFolder): vscode.Uri | undefined {
+	const root = folder ?? vscode.workspace.workspaceFolders?.[0];
+	return resolveReplacementsSource(filePath, root?.uri, root);
+}
 
-	// Handle ~/path syntax
-	if (expandedPath.startsWith('~/')) {
-		expandedPath = path.join(os.homedir(), expandedPath.slice(2));
-	}
-	// Handle ${userHome} variable
-	else if (expandedPath.includes('${userHome}')) {
-		expandedPath = expandedPath.replace(/\$\{userHome\}/g, os.homedir());
+/**
+ * Resolve a path in an `extends` or `include` of a replacements file. Relative
+ * paths are resolved against the directory of the including file.
+ */
+function resolveIncludedFileUri(filePath: string, includingUri: vscode.Uri): vscode.Uri | undefined {
+	return resolveReplacementsSource(filePath, vscode.Uri.joinPath(includingUri, '..'), vscode.workspace.getWorkspaceFolder(includingUri));
+}
+
+function resolveReplacementsSource(filePath: string, baseUri: vscode.Uri | undefined, folder: vscode.WorkspaceFolder | undefined): vscode.Uri | undefined {
+	// URIs are used as they are. Schemes are at least two characters, so Windows drive letters aren't mistaken for them.
+	if (/^[a-zA-Z][\w+.-]+:/.test(filePath)) {
+		return vscode.Uri.parse(filePath);
 	}
 
-	// Handle ${env:VARIABLE_NAME} variables
-	const envVarRegex = /\$\{env:([^}]+)\}/g;
-	expandedPath = expandedPath.replace(envVarRegex, (match, varName) => {
-		const envValue = process.env[varName];
-		if (envValue === undefined) {
-			console.warn(`Better Replace-on-Save: Environment variable ${varName} is not defined, keeping original path: ${match}`);
-			return match; // Keep original if environment variable is not found
+	// Workspace folders can be in virtual or remote file systems, so they are joined as URIs
+	const workspaceFolderVariable = /^\$\{workspaceFolder(?::([^}]+))?\}[\\/]?(.*)$/.exec(filePath);
+	if (workspaceFolderVariable) {
+		const [, name, rest] = workspaceFolderVariable;
+		const target = name === undefined ? folder : vscode.workspace.workspaceFolders?.find(other => other.name === name);
+		if (!target) {
+			logWarning(`Workspace folder ${name ?? ''} not found, skipping replacements file: ${filePath}`);
+			return undefined;
 		}
-		return envValue;
-	});
-
-	// Normalize the path to handle any consecutive slashes
-	expandedPath = path.normalize(expandedPath);
+		return rest ? vscode.Uri.joinPath(target.uri, expandVariables(rest)) : target.uri;
+	}
 
-	return expandedPath;
+	// First, expand variables in the file path, then resolve relative paths
+	const resolvedPath = expandVariables(filePath);
+	if (!path.isAbsolute(resolvedPath) && baseUri) {
+		return vscode.Uri.joinPath(baseUri, resolvedPath);
+	}
+	return vscode.Uri.file(resolvedPath);
 }
 
 /**
  * Load replacements from an external file
  */
-async function loadReplacementsFromFile(filePath: string): Promise<ReplacementConfig[]> {
+async function loadReplacementsFromFile(filePath: string, seenIds: Set<string>, folder?: vscode.WorkspaceFolder): Promise<ReplacementConfig[]> {
 	try {
-		// First, expand variables in the file path
-		let resolvedPath = expandVariables(filePath);
-		
-		// Then resolve relative paths relative to workspace root
-		if (!path.isAbsolute(resolvedPath)) {
-			const workspaceFolders = vscode.workspace.workspaceFolders;
-			if (workspaceFolders && workspaceFolders.length > 0) {
-				resolvedPath = path.join(workspaceFolders[0].uri.fsPath, resolvedPath);
-			}
+		const uri = resolveReplacementsFileUri(filePath, folder);
+		return uri ? await loadReplacementsFile(uri.toString(), replacementsFileHost, seenIds) : [];
+	} catch (error) {
+		logError(`Error loading replacements from file ${filePath}`, error);
+		return [];
+	}
+}
+
+/**
+ * Replacements files are identified by their URI, so they can be in any file system VS Code can read
+ */
+const replacementsFileHost: ReplacementsFileHost = {
+	readFile: location => {
+		const uri = vscode.Uri.parse(location);
+		loadedReplacementsFiles.set(location, uri);
+		return readReplacementsFile(uri);
+	},
+	resolveReference: (filePath, referencingLocation) =>
+		resolveIncludedFileUri(filePath, vscode.Uri.parse(referencingLocation))?.toString(),
+	reportProblems: (location, text, arrayOffset, problems) =>
+		reportProblems(vscode.Uri.parse(location), text, arrayOffset, problems),
+};
+
+/**
+ * Read a replacements file. If a file that was read before can't be read now (e.g. a remote
+ * file system is temporarily unavailable), the last version read is used instead, so its
+ * replacements aren't silently dropped. Returns undefined if the file doesn't exist.
+ */
+async function readReplacementsFile(uri: vscode.Uri): Promise<string | undefined> {
+	const key = uri.toString();
+	try {
+		const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+		lastReadReplacementsFiles.set(key, text);
+		return text;
+	} catch (error) {
+		if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+			lastReadReplacementsFiles.delete(key);
+			logWarning(`Replacements file not found: ${formatUri(uri)}`);
+			return undefined;
 		}
 
-		// Check if file exists
-		if (!fs.existsSync(resolvedPath)) {
-			console.warn(`Better Replace-on-Save: Replacements file not found: ${resolvedPath}`);
-			return [];
+		const lastRead = lastReadReplacementsFiles.get(key);
+		if (lastRead === undefined) {
+			throw error;
 		}
+		logWarning(`Couldn't read replacements file ${formatUri(uri)}, using the last version read: ${error instanceof Error ? error.message : String(error)}`);
+		return lastRead;
+	}
+}
 
-		// Read and parse file
-		const fileContent = fs.readFileSync(resolvedPath, 'utf-8');
-		const replacements = JSON.parse(fileContent);
+function formatUri(uri: vscode.Uri): string {
+	return uri.scheme === 'file' ? uri.fsPath : uri.toString();
+}
 
-		// Validate that it's an array
-		if (!Array.isArray(replacements)) {
-			console.warn(`Better Replace-on-Save: Invalid replacements file format (expected array): ${resolvedPath}`);
-			return [];
-		}
+/**
+ * Reload the replacements for every workspace folder, and for files outside any folder.
+ * Replacements in disabled groups are left out.
+ */
+async function reloadAllReplacements(): Promise<void> {
+	diagnosticCollection?.clear();
+	loadedReplacementsFiles = new Map();
 
-		// Validate each replacement object
-		const validReplacements: ReplacementConfig[] = [];
-		for (const replacement of replacements) {
-			if (typeof replacement === 'object' && 
-				typeof replacement.search === 'string' && 
-				typeof replacement.replace === 'string') {
-				validReplacements.push(replacement);
-			} else {
-				console.warn(`Better Replace-on-Save: Invalid replacement object in file ${resolvedPath}:`, replacement);
+	const replacements = new Map<string, ReplacementConfig[]>();
+	const groups = new Set<string>();
+	for (const folder of [undefined, ...(vscode.workspace.workspaceFolders ?? [])]) {
+		const folderReplacements = await loadAllReplacements(folder);
+		const disabledGroups = getDisabledGroups(folder?.uri);
+		for (const replacement of folderReplacements) {
+			if (replacement.group !== undefined) {
+				groups.add(replacement.group);
 			}
 		}
-
-		return validReplacements;
-	} catch (error) {
-		console.error(`Better Replace-on-Save: Error loading replacements from file ${filePath}:`, error);
-		return [];
+		replacements.set(getFolderKey(folder), folderReplacements.filter(replacement =>
+			replacement.group === undefined || !disabledGroups.includes(replacement.group)));
 	}
+	cachedReplacements = replacements;
+	replacementGroups = [...groups].sort();
+	clearRegExpCache();
+	lintAbortedReplacements.clear();
+
+	updateRuleTests(getAllReplacements(), getReplacementLabel);
+
+	vscode.workspace.textDocuments.forEach(lintDocument);
+}
+
+function getFolderKey(folder?: vscode.WorkspaceFolder): string {
+	return folder?.uri.toString() ?? '';
 }
 
 /**
- * Load and merge all replacements from settings and external files
+ * Get the replacements that apply to a file, based on the workspace folder it belongs to
  */
-async function loadAllReplacements(): Promise<ReplacementConfig[]> {
-	const config = vscode.workspace.getConfiguration('betterReplaceOnSave');
-	
+function getReplacementsForUri(uri: vscode.Uri): ReplacementConfig[] {
+	return cachedReplacements.get(getFolderKey(vscode.workspace.getWorkspaceFolder(uri))) ?? [];
+}
+
+/**
+ * Get the replacements of all workspace folders. Replacements with the same ID are only included once.
+ */
+function getAllReplacements(): ReplacementConfig[] {
+	const seenIds = new Set<string>();
+	return [...cachedReplacements.values()].flat().filter(replacement => {
+		if (replacement.id === undefined) {
+			return true;
+		}
+		if (seenIds.has(replacement.id)) {
+			return false;
+		}
+		seenIds.add(replacement.id);
+		return true;
+	});
+}
+
+/**
+ * Load and merge all replacements from settings and external files, for a workspace folder
+ * (or the workspace as a whole when no folder is given)
+ */
+async function loadAllReplacements(folder?: vscode.WorkspaceFolder): Promise<ReplacementConfig[]> {
+	const config = vscode.workspace.getConfiguration('betterReplaceOnSave', folder?.uri);
+
+	// IDs must be unique across settings and all files
+	const seenIds = new Set<string>();
+
 	// Get replacements from settings
-	const settingsReplacements: ReplacementConfig[] = config.get('replacements') || [];
+	const configuredReplacements: unknown = config.get('replacements') || [];
+	const { valid: settingsReplacements, problems: settingsProblems } =
+		validateReplacements(Array.isArray(configuredReplacements) ? configuredReplacements : [], seenIds);
+	reportSettingsProblems(config, settingsProblems, folder).catch(error => {
+		logError('Error reporting problems in settings', error);
+	});
 	
 	// Get replacement files
 	const replacementFiles: string[] = config.get('replacementsFiles') || [];
@@ -120,7 +256,7 @@ async function loadAllReplacements(): Promise<ReplacementConfig[]> {
 	// Load all file-based replacements
 	const fileReplacements: ReplacementConfig[] = [];
 	for (const filePath of replacementFiles) {
-		const replacements = await loadReplacementsFromFile(filePath);
+		const replacements = await loadReplacementsFromFile(filePath, seenIds, folder);
 		fileReplacements.push(...replacements);
 	}
 	
@@ -128,6 +264,132 @@ async function loadAllReplacements(): Promise<ReplacementConfig[]> {
 	return [...settingsReplacements, ...fileReplacements];
 }
 
+/**
+ * Report problems in `betterReplaceOnSave.replacements` against the settings.json the value comes from
+ */
+async function reportSettingsProblems(config: vscode.WorkspaceConfiguration, problems: ValidationProblem[], folder?: vscode.WorkspaceFolder): Promise<void> {
+	if (problems.length === 0) {
+		return;
+	}
+
+	// Problems are only attached to a settings file known to hold the value; otherwise they're logged
+	const source = getSettingsSource(config, 'replacements', folder);
+	const located = source && await locateSetting(source, 'betterReplaceOnSave.replacements');
+	if (!source || !located) {
+		problems.forEach(problem => logWarning(`Invalid replacement in settings: ${problem.message}`));
+		return;
+	}
+	reportProblems(source.uri, located.text, located.valueOffset, problems);
+}
+
+/**
+ * The settings file that should provide the effective value of a setting, and that value
+ */
+interface SettingsSource {
+	uri: vscode.Uri;
+	value: unknown;
+	isWorkspaceFile: boolean;  // Settings in a .code-workspace file are nested under "settings"
+}
+
+/**
+ * Find the settings file that should provide the effective value of a setting. The user settings
+ * file is a guess, as it differs between profiles and isn't on remote hosts.
+ */
+function getSettingsSource(config: vscode.WorkspaceConfiguration, section: string, folder?: vscode.WorkspaceFolder): SettingsSource | undefined {
+	const inspected = config.inspect(section);
+	const settingsFolder = folder ?? vscode.workspace.workspaceFolders?.[0];
+	if (inspected?.workspaceFolderValue !== undefined && settingsFolder) {
+		return { uri: vscode.Uri.joinPath(settingsFolder.uri, '.vscode', 'settings.json'), value: inspected.workspaceFolderValue, isWorkspaceFile: false };
+	}
+	if (inspected?.workspaceValue !== undefined) {
+		if (vscode.workspace.workspaceFile) {
+			return { uri: vscode.workspace.workspaceFile, value: inspected.workspaceValue, isWorkspaceFile: true };
+		}
+		if (settingsFolder) {
+			return { uri: vscode.Uri.joinPath(settingsFolder.uri, '.vscode', 'settings.json'), value: inspected.workspaceValue, isWorkspaceFile: false };
+		}
+		return undefined;
+	}
+	if (inspected?.globalValue !== undefined && userSettingsUri) {
+		return { uri: userSettingsUri, value: inspected.globalValue, isWorkspaceFile: false };
+	}
+	return undefined;
+}
+
+/**
+ * Find the offset of a setting's value in its settings file. Returns undefined if the file can't be
+ * read or doesn't hold the effective value, e.g. when the user settings of another profile were found.
+ */
+async function locateSetting(source: SettingsSource, key: string): Promise<{ text: string; valueOffset: number } | undefined> {
+	let text: string;
+	let settings: unknown;
+	try {
+		text = new TextDecoder().decode(await vscode.workspace.fs.readFile(source.uri));
+		settings = parseReplacementsFile(text, 'jsonc');
+	} catch {
+		return undefined;
+	}
+
+	const getProperty = (value: unknown, name: string) =>
+		typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>)[name] : undefined;
+	let objectOffset = findRootOffset(text);
+	if (source.isWorkspaceFile) {
+		const settingsProperty = findPropertyOffsets(text, objectOffset, 'settings');
+		if (!settingsProperty) {
+			return undefined;
+		}
+		objectOffset = settingsProperty.valueOffset;
+		settings = getProperty(settings, 'settings');
+	}
+
+	const property = findPropertyOffsets(text, objectOffset, key);
+	if (!property || JSON.stringify(getProperty(settings, key)) !== JSON.stringify(source.value)) {
+		return undefined;
+	}
+	return { text, valueOffset: property.valueOffset };
+}
+
+/**
+ * Publish validation problems as diagnostics. `arrayOffset` is the offset of
+ * the replacements array in `text`, used to locate individual replacements.
+ */
+function reportProblems(uri: vscode.Uri, text: string, arrayOffset: number, problems: ValidationProblem[]): void {
+	if (!diagnosticCollection) {
+		return;
+	}
+
+	const diagnostics = locateProblems(text, arrayOffset, problems).map(({ message, severity, start, end }) => {
+		const range = new vscode.Range(positionAt(text, start), positionAt(text, end));
+		const diagnostic = new vscode.Diagnostic(range, message, diagnosticSeverities[severity]);
+		diagnostic.source = 'Better Replace-on-Save';
+		return diagnostic;
+	});
+
+	// The same file can be loaded by several workspace folders, so skip problems that were already reported
+	const existing = diagnosticCollection.get(uri) ?? [];
+	const newDiagnostics = diagnostics.filter(diagnostic =>
+		!existing.some(other => other.message === diagnostic.message && other.range.isEqual(diagnostic.range)));
+	diagnosticCollection.set(uri, [...existing, ...newDiagnostics]);
+}
+
+/**
+ * Convert an offset in `text` to a Position, for text that isn't open as a TextDocument
+ */
+function positionAt(text: string, offset: number): vscode.Position {
+	const before = text.substring(0, offset);
+	const line = before.split('\n').length - 1;
+	return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1));
+}
+
+/**
+ * Reload all replacements, then set up the file watchers again, as a changed file can
+ * extend or include different files
+ */
+async function reloadReplacementsAndWatchers(context: vscode.ExtensionContext): Promise<void> {
+	await reloadAllReplacements();
+	setupFileWatchers(context);
+}
+
 /**
  * Setup file watchers for replacement files
  */
@@ -136,54 +398,103 @@ function setupFileWatchers(context: vscode.ExtensionContext): void {
 	fileWatchers.forEach(watcher => watcher.dispose());
 	fileWatchers = [];
 
-	const config = vscode.workspace.getConfiguration('betterReplaceOnSave');
-	const replacementFiles: string[] = config.get('replacementsFiles') || [];
-
-	for (const filePath of replacementFiles) {
-		// Expand variables and resolve relative paths
-		let resolvedPath = expandVariables(filePath);
-		if (!path.isAbsolute(resolvedPath)) {
-			const workspaceFolders = vscode.workspace.workspaceFolders;
-			if (workspaceFolders && workspaceFolders.length > 0) {
-				resolvedPath = path.join(workspaceFolders[0].uri.fsPath, resolvedPath);
+	// Collect the files of every workspace folder, as each folder can configure its own,
+	// along with the files they extend and include
+	const fileUris = new Map<string, vscode.Uri>(loadedReplacementsFiles);
+	for (const folder of [undefined, ...(vscode.workspace.workspaceFolders ?? [])]) {
+		const config = vscode.workspace.getConfiguration('betterReplaceOnSave', folder?.uri);
+		const replacementFiles: string[] = config.get('replacementsFiles') || [];
+		for (const filePath of replacementFiles) {
+			const uri = resolveReplacementsFileUri(filePath, folder);
+			if (uri) {
+				fileUris.set(uri.toString(), uri);
 			}
 		}
+	}
+
+	// Saving a file can fire several events, so they are batched into a single reload
+	const scheduleReload = () => {
+		clearTimeout(fileReloadTimer);
+		fileReloadTimer = setTimeout(() => reloadReplacementsAndWatchers(context), 100);
+	};
 
+	for (const fileUri of fileUris.values()) {
 		try {
-			const watcher = vscode.workspace.createFileSystemWatcher(resolvedPath);
-			
-			const reloadReplacements = async () => {
-				cachedReplacements = await loadAllReplacements();
-			};
+			// Watching the file relative to its directory works for files outside the workspace too
+			const pattern = new vscode.RelativePattern(vscode.Uri.joinPath(fileUri, '..'), path.posix.basename(fileUri.path));
+			const watcher = vscode.workspace.createFileSystemWatcher(pattern);
 
-			watcher.onDidCreate(reloadReplacements);
-			watcher.onDidChange(reloadReplacements);
-			watcher.onDidDelete(reloadReplacements);
+			watcher.onDidCreate(scheduleReload);
+			watcher.onDidChange(scheduleReload);
+			watcher.onDidDelete(scheduleReload);
 
 			fileWatchers.push(watcher);
-			context.subscriptions.push(watcher);
 		} catch (error) {
-			console.error(`Better Replace-on-Save: Error setting up file watcher for ${resolvedPath}:`, error);
+			logError(`Error setting up file watcher for ${formatUri(fileUri)}`, error);
 		}
 	}
 }
 
 export function activate(context: vscode.ExtensionContext) {
-	// Load initial replacements
-	loadAllReplacements().then(replacements => {
-		cachedReplacements = replacements;
+	// Output channel and status bar item
+	initializeReporting(context);
+	setWarningHandler(logWarning);
+
+	// Diagnostics for invalid replacements. The user settings.json of the default profile lives two levels
+	// above global storage; problems are only reported against it once it's confirmed to hold the setting.
+	diagnosticCollection = vscode.languages.createDiagnosticCollection('better-replace-on-save');
+	context.subscriptions.push(diagnosticCollection);
+	userSettingsUri = vscode.Uri.joinPath(context.globalStorageUri, '..', '..', 'settings.json');
+
+	// Replacement tests in the Testing view, run through the same pipeline as the replacements themselves.
+	// A test whose regex runs out of time errors rather than freezing the extension host.
+	initializeRuleTests(context, (replacement, input) => {
+		const timeout = vscode.workspace.getConfiguration('betterReplaceOnSave').get<number>('regexTimeout', defaultRegexTimeout);
+		const aborted: string[] = [];
+		const output = runReplacements(input, [replacement], { languageId: replacement.languages?.[0], timeout: timeout > 0 ? timeout : undefined, aborted });
+		if (aborted.length > 0) {
+			throw new Error('The regex ran for longer than betterReplaceOnSave.regexTimeout, so the replacement was aborted');
+		}
+		return output;
 	});
 
-	// Setup file watchers
-	setupFileWatchers(context);
+	// Diagnostics for pending replacements, kept up to date as documents change
+	lintDiagnosticCollection = vscode.languages.createDiagnosticCollection('better-replace-on-save.lint');
+	context.subscriptions.push(
+		lintDiagnosticCollection,
+		vscode.workspace.onDidOpenTextDocument(lintDocument),
+		vscode.workspace.onDidChangeTextDocument(event => scheduleLint(event.document)),
+		vscode.workspace.onDidCloseTextDocument(clearLint),
+	);
+
+	// Replacements with the `type`, `paste` and `create` triggers
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeTextDocument(scheduleTypeReplacements),
+		vscode.languages.registerDocumentPasteEditProvider('*', new ReplacementPasteEditProvider(), {
+			providedPasteEditKinds: [ReplacementPasteEditProvider.kind],
+			pasteMimeTypes: ['text/plain'],
+		}),
+		vscode.workspace.onDidCreateFiles(applyCreateReplacements),
+		{ dispose: () => typeTimers.forEach(timer => clearTimeout(timer)) },
+	);
+
+	// Load initial replacements, then watch the files they were loaded from
+	reloadReplacementsAndWatchers(context);
+	context.subscriptions.push({
+		dispose: () => {
+			clearTimeout(fileReloadTimer);
+			fileWatchers.forEach(watcher => watcher.dispose());
+			disposeRegExpWorker();
+		}
+	});
 
 	// Watch for configuration changes
 	context.subscriptions.push(
 		vscode.workspace.onDidChangeConfiguration(async (event) => {
 			if (event.affectsConfiguration('betterReplaceOnSave')) {
 				// Reload replacements when configuration changes
-				cachedReplacements = await loadAllReplacements();
-				
+				await reloadAllReplacements();
+
 				// Re-setup file watchers if replacementsFiles changed
 				if (event.affectsConfiguration('betterReplaceOnSave.replacementsFiles')) {
 					setupFileWatchers(context);
@@ -192,54 +503,51 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// Folders each have their own replacements
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeWorkspaceFolders(() => reloadReplacementsAndWatchers(context))
+	);
+
 	// Register the code action provider
 	const provider = new ReplaceOnSaveCodeActionProvider();
 	context.subscriptions.push(
 		vscode.languages.registerCodeActionsProvider('*', provider, {
-			providedCodeActionKinds: [vscode.CodeActionKind.Source]
+			providedCodeActionKinds: [vscode.CodeActionKind.Source, vscode.CodeActionKind.Refactor, vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.Notebook]
 		})
 	);
 
-	// Register the command that will be called by the code action
+	// Register the commands. Each accepts an optional URI of the document to operate on,
+	// defaulting to the active editor.
 	context.subscriptions.push(
-		vscode.commands.registerCommand('better-replace-on-save.applyReplacements', async () => {
-			const editor = vscode.window.activeTextEditor;
-			if (!editor) {
+		vscode.commands.registerCommand('better-replace-on-save.applyReplacements', async (uri?: vscode.Uri) => {
+			// In a notebook, every cell is replaced rather than just the one being edited
+			const notebook = resolveNotebook(uri);
+			if (notebook) {
+				const edit = createNotebookReplacementEdit(notebook, 'command');
+				if (edit.size > 0) {
+					await vscode.workspace.applyEdit(edit);
+				}
 				return;
 			}
 
-			// When run from code action (on save), respect language filters
-			await applyReplacements(editor, undefined, true);
+			const document = await resolveDocument(uri);
+			if (!document) {
+				return;
+			}
+
+			await applyReplacements(document);
 		})
 	);
 	context.subscriptions.push(
-		vscode.commands.registerCommand('better-replace-on-save.applySpecificReplacement', async (replacementId?: string, isCodeAction?: boolean) => {
-			const editor = vscode.window.activeTextEditor;
-			if (!editor) {
+		vscode.commands.registerCommand('better-replace-on-save.applySpecificReplacement', async (replacementId?: string, isCodeAction?: boolean, uri?: vscode.Uri) => {
+			const document = await resolveDocument(uri);
+			if (!document) {
 				return;
 			}
 
 			// If no replacement ID was provided, show quick pick to select from available replacements
 			if (!replacementId) {
-				// Filter replacements that have an ID
-				const replacementsWithIds = cachedReplacements.filter(r => r.id !== undefined);
-
-				if (replacementsWithIds.length === 0) {
-					vscode.window.showInformationMessage('No replacement patterns with IDs configured.');
-					return;
-				}
-
-				// Create quick pick items
-				const quickPickItems = replacementsWithIds.map(r => ({
-					label: r.id!,
-					description: `${r.search} → ${r.replace}`,
-					replacementId: r.id
-				}));
-
-				const selected = await vscode.window.showQuickPick(quickPickItems, {
-					placeHolder: 'Select a replacement pattern to apply'
-				});
-
+				const selected = await showReplacementQuickPick('Select a replacement pattern to apply', getReplacementsForUri(document.uri), false);
 				if (!selected) {
 					return; // User canceled the selection
 				}
@@ -249,113 +557,848 @@ export function activate(context: vscode.ExtensionContext) {
 				isCodeAction = false;
 			}
 
-			// When called from on-save code action, isCodeAction will be true (passed by CodeActionProvider)
+			// When isCodeAction is true, language filters are respected as they are on save
 			// When called directly from command palette, isCodeAction will be undefined or false
-			await applyReplacements(editor, replacementId, !!isCodeAction);
+			await applyReplacements(document, replacementId, !!isCodeAction);
+		})
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.applyReplacementsToSelection', async () => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) {
+				return;
+			}
+
+			const ranges = editor.selections
+				.filter(selection => !selection.isEmpty)
+				.map(selection => toOffsetRange(editor.document, selection));
+			if (ranges.length === 0) {
+				vscode.window.showInformationMessage('No text selected.');
+				return;
+			}
+
+			await applyReplacements(editor.document, undefined, false, ranges);
 		})
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.reloadReplacements', async () => {
+			await reloadReplacementsAndWatchers(context);
+			const count = getAllReplacements().length;
+			logInfo(`Reloaded ${count} replacement(s)`);
+			vscode.window.showInformationMessage(`Reloaded ${count} replacement rule(s).`);
+		})
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.previewReplacements', async (uri?: vscode.Uri) => {
+			const document = await resolveDocument(uri);
+			if (!document) {
+				return;
+			}
+
+			await previewReplacements(document);
+		})
+	);
+	registerGroupCommands(context, () => replacementGroups);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.applyReplacementsToWorkspace', async (replacementId?: string) => {
+			// If no replacement ID was provided, let the user choose between all replacements or a single one
+			if (!replacementId) {
+				const selected = await showReplacementQuickPick('Select the replacements to apply to all files in the workspace', getAllReplacements(), true);
+				if (!selected) {
+					return; // User canceled the selection
+				}
+				replacementId = selected.replacementId;
+			}
+
+			await applyReplacementsToWorkspace(replacementId);
+		})
+	);
+}
+
+/**
+ * Get the document a command should operate on: the given URI, or the active editor's document
+ */
+async function resolveDocument(uri?: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+	if (uri) {
+		return vscode.workspace.openTextDocument(uri);
+	}
+	return vscode.window.activeTextEditor?.document;
+}
+
+/**
+ * Get the open notebook a command should operate on: the one with the given URI, or the one
+ * being edited in the active editor. Returns undefined if it isn't a notebook.
+ */
+function resolveNotebook(uri?: vscode.Uri): vscode.NotebookDocument | undefined {
+	if (uri) {
+		return vscode.workspace.notebookDocuments.find(notebook => notebook.uri.toString() === uri.toString());
+	}
+	const document = vscode.window.activeTextEditor?.document;
+	return document ? findNotebook(document) : vscode.window.activeNotebookEditor?.notebook;
+}
+
+/**
+ * Find the notebook a document is a cell of, if any
+ */
+function findNotebook(document: vscode.TextDocument): vscode.NotebookDocument | undefined {
+	if (document.uri.scheme !== 'vscode-notebook-cell') {
+		return undefined;
+	}
+	return vscode.workspace.notebookDocuments.find(notebook =>
+		notebook.getCells().some(cell => cell.document.uri.toString() === document.uri.toString()));
+}
+
+/**
+ * Show a quick pick of the replacements that have an ID, optionally with an
+ * "All replacements" item. Returns undefined if the user cancels.
+ */
+async function showReplacementQuickPick(
+	placeHolder: string,
+	replacements: ReplacementConfig[],
+	includeAll: boolean
+): Promise<{ replacementId?: string } | undefined> {
+	// Filter replacements that have an ID
+	const replacementsWithIds = replacements.filter(r => r.id !== undefined);
+
+	if (replacementsWithIds.length === 0 && !includeAll) {
+		vscode.window.showInformationMessage('No replacement patterns with IDs configured.');
+		return undefined;
+	}
+
+	// Create quick pick items
+	const quickPickItems: (vscode.QuickPickItem & { replacementId?: string })[] = replacementsWithIds.map(r => ({
+		label: r.id!,
+		description: `${r.search} → ${r.replace}`,
+		replacementId: r.id
+	}));
+	if (includeAll) {
+		quickPickItems.unshift({
+			label: 'All replacements',
+			description: `${replacements.length} configured`,
+			replacementId: undefined
+		});
+	}
+
+	return vscode.window.showQuickPick(quickPickItems, { placeHolder });
+}
+
+/**
+ * Refactor code action that applies replacements to a selection. The edit is
+ * only computed when the action is chosen, in `resolveCodeAction`.
+ */
+class SelectionCodeAction extends vscode.CodeAction {
+	constructor(readonly document: vscode.TextDocument, readonly range: vscode.Range) {
+		super('Apply replacements to selection', vscode.CodeActionKind.Refactor.append('applyReplacements'));
+	}
 }
 
 class ReplaceOnSaveCodeActionProvider implements vscode.CodeActionProvider {
 
-	provideCodeActions(
+	async provideCodeActions(
 		document: vscode.TextDocument,
 		range: vscode.Range | vscode.Selection,
 		context: vscode.CodeActionContext,
 		token: vscode.CancellationToken,
-	): vscode.CodeAction[] {
+	): Promise<vscode.CodeAction[]> {
+		const quickFixes = this.provideQuickFixes(document, context);
+		const refactorActions = this.provideRefactorActions(document, range, context);
+		const notebookActions = this.provideNotebookActions(document, context);
+
 		const codeActionKind = vscode.CodeActionKind.Source.append('applyReplacements');
 		if (!context.only?.intersects(codeActionKind)) {
-			return [];
+			return [...quickFixes, ...refactorActions, ...notebookActions];
 		}
-		const mainAction = new vscode.CodeAction(
-			'Apply all configured replacements',
-			codeActionKind,
 
-		);
-		mainAction.command = {
-			command: 'better-replace-on-save.applyReplacements',
-			title: 'Apply configured replacements'
-		};
-		let actions: vscode.CodeAction[];
-		if (context.only && context.only.contains(codeActionKind)) {
+		// Each action carries the edit for this document, so the replacements apply to the document
+		// being saved even when it isn't the active editor (e.g. "Save All" or auto save).
+		// Source actions are only requested automatically on save, so only those runs are reported.
+		const trigger = context.triggerKind === vscode.CodeActionTriggerKind.Automatic ? 'save' : undefined;
+
+		// On save, optionally only replace in lines changed since the last commit
+		const onlyModifiedLines = vscode.workspace.getConfiguration('betterReplaceOnSave', document.uri).get<boolean>('onlyModifiedLines');
+		const ranges = trigger === 'save' && onlyModifiedLines ? await getModifiedRanges(document) : undefined;
+
+		let actions: vscode.CodeAction[] = [];
+		if (context.only.contains(codeActionKind)) {
+			const mainAction = new vscode.CodeAction(
+				'Apply all configured replacements',
+				codeActionKind,
+			);
+			mainAction.edit = createReplacementEdit(document, getApplicableReplacements(document), trigger, ranges);
 			actions = [mainAction];
-		} else {
-			actions = [];
 		}
 
-		const subActions = cachedReplacements.flatMap((replacement) => {
-			if (replacement.id !== undefined && typeof replacement.id === 'string') {
+		// Per-ID and group actions are only returned when their own kind is requested. Requesting
+		// source.applyReplacements also covers them, but their edits are computed against the same
+		// text as the main action's, so applying them after it would corrupt the document.
+		const idReplacements = getSkipReason(document) ? [] : getReplacementsForUri(document.uri);
+		const subActions = idReplacements.flatMap((replacement) => {
+			if (replacement.id !== undefined && typeof replacement.id === 'string' && matchesDocumentFilters(replacement, document)) {
 				const subActionKind = codeActionKind.append(replacement.id);
-				const subAction = new vscode.CodeAction(
-					`Apply replacement: ${replacement.id}`,
-					subActionKind,
-				);
-				subAction.command = {
-					command: 'better-replace-on-save.applySpecificReplacement',
-					title: 'Apply specific replacement',
-					arguments: [replacement.id, true], // true indicates this is a code action
-				};
-				if (context.only && context.only.contains(subActionKind)) {
+				if (context.only?.value === subActionKind.value) {
+					const subAction = new vscode.CodeAction(
+						`Apply replacement: ${replacement.id}`,
+						subActionKind,
+					);
+					subAction.edit = createReplacementEdit(document, [replacement], trigger, ranges);
 					return [subAction];
 				}
 			}
 			return [];
 		});
 
-		return [...actions, ...subActions];
+		// Each group can be applied on save as source.applyReplacements.group.<name>
+		const groupReplacements = new Map<string, ReplacementConfig[]>();
+		for (const replacement of getApplicableReplacements(document)) {
+			if (replacement.group !== undefined) {
+				groupReplacements.set(replacement.group, [...(groupReplacements.get(replacement.group) ?? []), replacement]);
+			}
+		}
+		const groupActions = [...groupReplacements].flatMap(([group, replacements]) => {
+			const groupActionKind = codeActionKind.append('group').append(group);
+			if (context.only?.value !== groupActionKind.value) {
+				return [];
+			}
+			const groupAction = new vscode.CodeAction(`Apply replacement group: ${group}`, groupActionKind);
+			groupAction.edit = createReplacementEdit(document, replacements, trigger, ranges);
+			return [groupAction];
+		});
+
+		return [...quickFixes, ...refactorActions, ...actions, ...subActions, ...groupActions];
+	}
+
+	resolveCodeAction(codeAction: vscode.CodeAction): vscode.CodeAction {
+		if (codeAction instanceof SelectionCodeAction) {
+			const { document, range } = codeAction;
+			codeAction.edit = createReplacementEdit(document, getApplicableReplacements(document), 'command', [toOffsetRange(document, range)]);
+		}
+		return codeAction;
+	}
+
+	/**
+	 * Quick fixes for lint diagnostics: apply the single occurrence, or every occurrence of its replacement
+	 */
+	private provideQuickFixes(document: vscode.TextDocument, context: vscode.CodeActionContext): vscode.CodeAction[] {
+		if (context.only && !context.only.intersects(vscode.CodeActionKind.QuickFix)) {
+			return [];
+		}
+
+		const matches = lintMatches.get(document.uri.toString()) ?? [];
+		const actions: vscode.CodeAction[] = [];
+		const fixAllReplacements = new Set<ReplacementConfig>();
+		for (const diagnostic of context.diagnostics) {
+			const lintMatch = matches.find(match =>
+				match.diagnostic.range.isEqual(diagnostic.range) && match.diagnostic.message === diagnostic.message);
+			// Skip matches made stale by edits since the document was last linted
+			if (!lintMatch || document.getText(diagnostic.range) !== lintMatch.original) {
+				continue;
+			}
+
+			const fix = new vscode.CodeAction(`Replace with "${lintMatch.text}"`, vscode.CodeActionKind.QuickFix);
+			fix.edit = new vscode.WorkspaceEdit();
+			fix.edit.replace(document.uri, diagnostic.range, lintMatch.text);
+			fix.diagnostics = [diagnostic];
+			fix.isPreferred = true;
+			actions.push(fix);
+
+			const { replacement } = lintMatch;
+			if (!fixAllReplacements.has(replacement)) {
+				fixAllReplacements.add(replacement);
+				const fixAll = new vscode.CodeAction(
+					`Apply replacement "${getReplacementLabel(replacement)}" to all occurrences`,
+					vscode.CodeActionKind.QuickFix,
+				);
+				fixAll.edit = createReplacementEdit(document, [replacement]);
+				fixAll.diagnostics = matches.filter(match => match.replacement === replacement).map(match => match.diagnostic);
+				actions.push(fixAll);
+			}
+		}
+		return actions;
+	}
+
+	/**
+	 * The notebook.source.applyReplacements action, which applies replacements to every cell of a notebook.
+	 * On save, notebook actions are only requested for the notebook's first cell.
+	 */
+	private provideNotebookActions(document: vscode.TextDocument, context: vscode.CodeActionContext): vscode.CodeAction[] {
+		const notebookKind = vscode.CodeActionKind.Notebook.append('source.applyReplacements');
+		if (!context.only?.intersects(notebookKind)) {
+			return [];
+		}
+		const notebook = findNotebook(document);
+		if (!notebook) {
+			return [];
+		}
+
+		const trigger = context.triggerKind === vscode.CodeActionTriggerKind.Automatic ? 'save' : undefined;
+		const action = new vscode.CodeAction('Apply all configured replacements to notebook', notebookKind);
+		action.edit = createNotebookReplacementEdit(notebook, trigger);
+		return [action];
+	}
+
+	private provideRefactorActions(
+		document: vscode.TextDocument,
+		range: vscode.Range,
+		context: vscode.CodeActionContext,
+	): vscode.CodeAction[] {
+		const refactorKind = vscode.CodeActionKind.Refactor.append('applyReplacements');
+		if (range.isEmpty || (context.only && !context.only.intersects(refactorKind))) {
+			return [];
+		}
+		if (getApplicableReplacements(document).length === 0) {
+			return [];
+		}
+		return [new SelectionCodeAction(document, range)];
 	}
 }
 
 async function applyReplacements(
-	editor: vscode.TextEditor,
+	document: vscode.TextDocument,
 	specificReplacementId?: string,
-	isCodeAction: boolean = false
+	isCodeAction: boolean = false,
+	ranges?: OffsetRange[]
 ): Promise<void> {
-	const document = editor.document;
-	const languageId = document.languageId;
+	const skipReason = getSkipReason(document);
+	if (skipReason) {
+		if (!isCodeAction) {
+			vscode.window.showInformationMessage(`Replacements are skipped for this file, as ${skipReason}.`);
+		}
+		return;
+	}
 
-	// Filter replacements based on language and specific ID if provided
-	let applicableReplacements = cachedReplacements;
+	const edit = createReplacementEdit(document, getApplicableReplacements(document, specificReplacementId, isCodeAction), 'command', ranges);
+	if (edit.size > 0) {
+		await vscode.workspace.applyEdit(edit);
+	}
+}
 
-	// Apply specific ID filter if specified
-	if (specificReplacementId) {
-		applicableReplacements = applicableReplacements.filter(r => r.id === specificReplacementId);
+/**
+ * Create a WorkspaceEdit that applies the replacements to a document
+ */
+function createReplacementEdit(
+	document: vscode.TextDocument,
+	replacements: ReplacementConfig[],
+	trigger?: RunTrigger,
+	ranges?: OffsetRange[]
+): vscode.WorkspaceEdit {
+	const edit = new vscode.WorkspaceEdit();
+	addReplacementEdit(edit, document, replacements, trigger, ranges);
+	return edit;
+}
+
+/**
+ * Add the edit that applies the replacements to a document, if it changes anything, to a WorkspaceEdit.
+ * The run is reported if a trigger is given. If ranges are given, only matches within them are replaced.
+ */
+function addReplacementEdit(
+	edit: vscode.WorkspaceEdit,
+	document: vscode.TextDocument,
+	replacements: ReplacementConfig[],
+	trigger?: RunTrigger,
+	ranges?: OffsetRange[]
+): void {
+	if (replacements.length === 0) {
+		return;
 	}
 
-	// Apply language filter in two cases:
-	// 1. No specific ID was provided
-	// 2. A specific ID was provided AND this is a code action (e.g., on save)
-	if (!specificReplacementId || (specificReplacementId && isCodeAction)) {
-		applicableReplacements = applicableReplacements.filter(r =>
-			!r.languages || r.languages.includes(languageId)
+	const startTime = Date.now();
+	const counts = new Map<string, number>();
+	const context = { ...createReplacementContext(document, counts), ranges };
+	addDocumentEdit(edit, document, replacements, context);
+	if (trigger) {
+		reportRun({ uri: document.uri, trigger, counts, duration: Date.now() - startTime, aborted: context.aborted ?? [] });
+	} else {
+		reportAbortedReplacements(document.uri, context.aborted ?? []);
+	}
+}
+
+/**
+ * Create a WorkspaceEdit that applies the replacements to every cell of a notebook
+ */
+function createNotebookReplacementEdit(notebook: vscode.NotebookDocument, trigger?: RunTrigger): vscode.WorkspaceEdit {
+	const edit = new vscode.WorkspaceEdit();
+	addNotebookReplacementEdit(edit, notebook, trigger);
+	return edit;
+}
+
+/**
+ * Add the edits that apply the replacements to every code and markdown cell of a notebook to a WorkspaceEdit.
+ * Each cell is filtered by its own language. Without `selectedReplacements`, the replacements that run on
+ * save are applied. The run is reported for the whole notebook if a trigger is given.
+ */
+function addNotebookReplacementEdit(
+	edit: vscode.WorkspaceEdit,
+	notebook: vscode.NotebookDocument,
+	trigger?: RunTrigger,
+	selectedReplacements?: ReplacementConfig[]
+): void {
+	const startTime = Date.now();
+	const counts = new Map<string, number>();
+	const aborted: string[] = [];
+	for (const cell of notebook.getCells()) {
+		const replacements = selectedReplacements
+			? selectedReplacements.filter(replacement => matchesDocumentFilters(replacement, cell.document))
+			: getApplicableReplacements(cell.document);
+		if (replacements.length > 0) {
+			addDocumentEdit(edit, cell.document, replacements, { ...createReplacementContext(cell.document, counts), aborted });
+		}
+	}
+
+	if (trigger) {
+		reportRun({ uri: notebook.uri, trigger, counts, duration: Date.now() - startTime, aborted });
+	} else {
+		reportAbortedReplacements(notebook.uri, aborted);
+	}
+}
+
+/**
+ * Run the replacements on a document, adding an edit to a WorkspaceEdit for each change. Each
+ * edit only covers its own changed text, so the cursor, markers and folding elsewhere are kept.
+ */
+function addDocumentEdit(
+	edit: vscode.WorkspaceEdit,
+	document: vscode.TextDocument,
+	replacements: ReplacementConfig[],
+	context: ReplacementContext
+): void {
+	const text = document.getText();
+	for (const replacementEdit of computeReplacementEdits(text, replacements, context)) {
+		const original = text.substring(replacementEdit.start, replacementEdit.end);
+		if (original === replacementEdit.text) {
+			continue;
+		}
+
+		const { start, end, replacementText } = computeMinimalEdit(original, replacementEdit.text);
+		const range = new vscode.Range(
+			document.positionAt(replacementEdit.start + start),
+			document.positionAt(replacementEdit.start + end)
 		);
+		edit.replace(document.uri, range, replacementText);
 	}
+}
+
+function toOffsetRange(document: vscode.TextDocument, range: vscode.Range): OffsetRange {
+	return { start: document.offsetAt(range.start), end: document.offsetAt(range.end) };
+}
+
+/**
+ * Create the context for running replacements on a document, including the
+ * variables available in replacement strings and the time limit for each regex
+ */
+function createReplacementContext(document: vscode.TextDocument, counts?: Map<string, number>): ReplacementContext {
+	const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+	const timeout = vscode.workspace.getConfiguration('betterReplaceOnSave', document.uri).get<number>('regexTimeout', defaultRegexTimeout);
+	return {
+		languageId: document.languageId,
+		counts,
+		variables: createReplacementVariables(
+			document.uri.fsPath,
+			vscode.workspace.asRelativePath(document.uri, false),
+			folder && { path: folder.uri.fsPath, name: folder.name }
+		),
+		timeout: timeout > 0 ? timeout : undefined,
+		aborted: [],
+	};
+}
+
+/**
+ * A match reported as a diagnostic in lint mode
+ */
+interface LintMatch {
+	diagnostic: vscode.Diagnostic;
+	replacement: ReplacementConfig;
+	original: string;  // The matched text
+	text: string;  // The text that replaces it
+}
 
-	if (applicableReplacements.length === 0) {
+// Documents that aren't files the user edits, such as output channels and diffs, aren't linted
+const lintedSchemes = ['file', 'untitled', 'vscode-remote'];
+
+/**
+ * Report each match of the applicable replacements in a document as a diagnostic, if lint mode
+ * is enabled. Each replacement's matches are found in the document as it is, independently of
+ * the other replacements in the pipeline.
+ */
+function lintDocument(document: vscode.TextDocument): void {
+	const enabled = vscode.workspace.getConfiguration('betterReplaceOnSave', document.uri).get<boolean>('lint');
+	if (!lintDiagnosticCollection || !enabled || !lintedSchemes.includes(document.uri.scheme)) {
+		clearLint(document);
 		return;
 	}
 
-	await editor.edit((editBuilder => {
-		const text = document.getText();
+	// Replacements that ran out of time aren't linted again until they're reloaded or the document is reopened
+	const key = document.uri.toString();
+	const aborted = lintAbortedReplacements.get(key) ?? new Set<string>();
+	const replacements = getApplicableReplacements(document).filter(replacement => !aborted.has(getReplacementLabel(replacement)));
 
-		for (const replacement of applicableReplacements) {
-			if (replacement.search === undefined) {
-				console.warn(`Better Replace-on-Save: Missing search pattern for replacement`, replacement);
+	const text = document.getText();
+	const context = createReplacementContext(document);
+	const matches: LintMatch[] = [];
+	for (const replacement of replacements) {
+		for (const match of findReplacementMatches(text, replacement, context)) {
+			const original = text.substring(match.start, match.end);
+			if (original === match.text) {
 				continue;
 			}
 
-			const searchValue = new RegExp(replacement.search, 'gd');
-			const results = text.matchAll(searchValue);
-			for (const result of results) {
-				const start = result.index;
-				const end = result.index + result[0].length;
-				const matchedText = text.substring(start, end);
-				const replacementText = matchedText.replace(searchValue, replacement.replace ?? "");
-				editBuilder.replace(new vscode.Range(document.positionAt(start), document.positionAt(end)), replacementText);
+			const range = new vscode.Range(document.positionAt(match.start), document.positionAt(match.end));
+			const message = replacement.description ?? `Replace "${original}" with "${match.text}"`;
+			const diagnostic = new vscode.Diagnostic(range, message, diagnosticSeverities[replacement.severity ?? 'information']);
+			diagnostic.source = 'Better Replace-on-Save';
+			if (replacement.id !== undefined) {
+				diagnostic.code = replacement.id;
 			}
+			matches.push({ diagnostic, replacement, original, text: match.text });
 		}
-	}));
+	}
+
+	if (context.aborted?.length) {
+		context.aborted.forEach(label => aborted.add(label));
+		lintAbortedReplacements.set(key, aborted);
+		reportAbortedReplacements(document.uri, context.aborted);
+	}
+
+	lintMatches.set(key, matches);
+	lintDiagnosticCollection.set(document.uri, matches.map(match => match.diagnostic));
+}
+
+/**
+ * Lint a document shortly after it stops changing
+ */
+function scheduleLint(document: vscode.TextDocument): void {
+	const key = document.uri.toString();
+	clearTimeout(lintTimers.get(key));
+	lintTimers.set(key, setTimeout(() => {
+		lintTimers.delete(key);
+		lintDocument(document);
+	}, 300));
+}
+
+function clearLint(document: vscode.TextDocument): void {
+	const key = document.uri.toString();
+	clearTimeout(lintTimers.get(key));
+	lintTimers.delete(key);
+	lintMatches.delete(key);
+	lintAbortedReplacements.delete(key);
+	lintDiagnosticCollection?.delete(document.uri);
+}
+
+/**
+ * Run the replacements with the `type` trigger on the active document once it stops changing
+ * for `typeDebounce` milliseconds. Undo and redo don't schedule a run, and nor do the edits
+ * made by these replacements, so a replacement can't keep triggering itself.
+ */
+function scheduleTypeReplacements(event: vscode.TextDocumentChangeEvent): void {
+	const { document } = event;
+	const key = document.uri.toString();
+	if (event.contentChanges.length === 0 || event.reason !== undefined || typeEditsInProgress.has(key) ||
+		document !== vscode.window.activeTextEditor?.document || getTriggeredReplacements(document, 'type').length === 0) {
+		return;
+	}
+
+	const debounce = vscode.workspace.getConfiguration('betterReplaceOnSave', document.uri).get<number>('typeDebounce', 500);
+	clearTimeout(typeTimers.get(key));
+	typeTimers.set(key, setTimeout(() => {
+		typeTimers.delete(key);
+		applyTypeReplacements(document);
+	}, debounce));
+}
+
+async function applyTypeReplacements(document: vscode.TextDocument): Promise<void> {
+	if (document.isClosed) {
+		return;
+	}
+	const edit = createReplacementEdit(document, getTriggeredReplacements(document, 'type'), 'type');
+	if (edit.size === 0) {
+		return;
+	}
+
+	const key = document.uri.toString();
+	typeEditsInProgress.add(key);
+	try {
+		await vscode.workspace.applyEdit(edit);
+	} finally {
+		typeEditsInProgress.delete(key);
+	}
+}
+
+/**
+ * Paste edit that applies the replacements with the `paste` trigger to the pasted text.
+ * Exported for testing.
+ */
+export class ReplacementPasteEditProvider implements vscode.DocumentPasteEditProvider {
+	static readonly kind = vscode.DocumentDropOrPasteEditKind.Text.append('applyReplacements');
+
+	async provideDocumentPasteEdits(
+		document: vscode.TextDocument,
+		ranges: readonly vscode.Range[],
+		dataTransfer: vscode.DataTransfer,
+		pasteContext: vscode.DocumentPasteEditContext,
+		token: vscode.CancellationToken,
+	): Promise<vscode.DocumentPasteEdit[] | undefined> {
+		// Pasting into several selections can split the text between them, which a single edit can't do
+		if (ranges.length !== 1) {
+			return undefined;
+		}
+		const replacements = getTriggeredReplacements(document, 'paste');
+		if (replacements.length === 0) {
+			return undefined;
+		}
+		const text = await dataTransfer.get('text/plain')?.asString();
+		if (!text || token.isCancellationRequested) {
+			return undefined;
+		}
+
+		const startTime = Date.now();
+		const counts = new Map<string, number>();
+		const context = createReplacementContext(document, counts);
+		const newText = runReplacements(text, replacements, context);
+		reportRun({ uri: document.uri, trigger: 'paste', counts, duration: Date.now() - startTime, aborted: context.aborted ?? [] });
+		if (newText === text) {
+			return undefined;
+		}
+		return [new vscode.DocumentPasteEdit(newText, 'Paste with replacements', ReplacementPasteEditProvider.kind)];
+	}
+}
+
+/**
+ * Run the replacements with the `create` trigger on files created in VS Code, e.g. from the
+ * Explorer. Changed files are left unsaved.
+ */
+async function applyCreateReplacements(event: vscode.FileCreateEvent): Promise<void> {
+	const edit = new vscode.WorkspaceEdit();
+	for (const uri of event.files) {
+		// Check file filters before opening the document, as most files are usually skipped
+		if (!getReplacementsForUri(uri).some(r => hasTrigger(r, 'create') && matchesFileFilters(r, uri))) {
+			continue;
+		}
+
+		let document: vscode.TextDocument;
+		try {
+			document = await vscode.workspace.openTextDocument(uri);
+		} catch {
+			continue; // Folder, binary or unreadable file
+		}
+		addReplacementEdit(edit, document, getTriggeredReplacements(document, 'create'), 'create');
+	}
+
+	if (edit.size > 0) {
+		await vscode.workspace.applyEdit(edit);
+	}
+}
+
+/**
+ * Show the edits `applyReplacements` would make in the refactor preview,
+ * grouped by replacement, so each change can be accepted or rejected
+ */
+async function previewReplacements(document: vscode.TextDocument): Promise<void> {
+	const skipReason = getSkipReason(document);
+	if (skipReason) {
+		vscode.window.showInformationMessage(`Replacements are skipped for this file, as ${skipReason}.`);
+		return;
+	}
+
+	const applicableReplacements = getApplicableReplacements(document);
+	const context = createReplacementContext(document);
+	const edits = computeReplacementEdits(document.getText(), applicableReplacements, context);
+	reportAbortedReplacements(document.uri, context.aborted ?? []);
+	if (edits.length === 0) {
+		vscode.window.showInformationMessage('No replacements would be made in this file.');
+		return;
+	}
+
+	const workspaceEdit = new vscode.WorkspaceEdit();
+	for (const edit of edits) {
+		const range = new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end));
+		workspaceEdit.replace(document.uri, range, edit.text, {
+			label: edit.labels.join(', '),
+			needsConfirmation: true,
+		});
+	}
+	await vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Apply replacements to every matching file in the workspace as a single undoable edit.
+ * Language and file filters are always respected.
+ */
+async function applyReplacementsToWorkspace(specificReplacementId?: string): Promise<void> {
+	// Each file uses the replacements of its own workspace folder
+	// Without a specific ID, the replacements that run on save are applied
+	const isSelected = (r: ReplacementConfig) => specificReplacementId ? r.id === specificReplacementId : hasTrigger(r, 'save');
+	const getReplacements = (uri: vscode.Uri) => getReplacementsForUri(uri).filter(isSelected);
+
+	const allReplacements = getAllReplacements().filter(isSelected);
+	if (allReplacements.length === 0) {
+		vscode.window.showInformationMessage('No replacements configured.');
+		return;
+	}
+
+	const workspaceEdit = await vscode.window.withProgress({
+		location: vscode.ProgressLocation.Notification,
+		title: 'Applying replacements to workspace',
+		cancellable: true
+	}, async (progress, token) => {
+		const files = await vscode.workspace.findFiles('**/*', getWorkspaceExcludeGlob(), undefined, token);
+		const edit = new vscode.WorkspaceEdit();
+
+		for (const uri of files) {
+			if (token.isCancellationRequested) {
+				return undefined;
+			}
+			progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / files.length });
+
+			// Check file filters before opening the document, as most files are usually skipped
+			const replacements = getReplacements(uri);
+			if (!replacements.some(r => matchesFileFilters(r, uri))) {
+				continue;
+			}
+			const skipReason = await getFileSkipReason(uri);
+			if (skipReason) {
+				logInfo(`Skipped ${vscode.workspace.asRelativePath(uri)}, as ${skipReason}`);
+				continue;
+			}
+
+			// Notebooks are replaced cell by cell, rather than in their JSON
+			if (uri.path.endsWith('.ipynb')) {
+				try {
+					addNotebookReplacementEdit(edit, await vscode.workspace.openNotebookDocument(uri), 'workspace', replacements);
+				} catch {
+					// No notebook serializer is available, e.g. the Jupyter extension is disabled
+				}
+				continue;
+			}
+
+			let document: vscode.TextDocument;
+			try {
+				document = await vscode.workspace.openTextDocument(uri);
+			} catch {
+				continue; // Binary or unreadable file
+			}
+
+			addReplacementEdit(edit, document, replacements.filter(r => matchesDocumentFilters(r, document)), 'workspace');
+		}
+
+		return token.isCancellationRequested ? undefined : edit;
+	});
+
+	if (!workspaceEdit) {
+		return; // Cancelled
+	}
+	if (workspaceEdit.size === 0) {
+		vscode.window.showInformationMessage('No replacements would be made in the workspace.');
+		return;
+	}
+
+	await vscode.workspace.applyEdit(workspaceEdit);
+	// Notebook cells share the path of their notebook, so each notebook counts as one file
+	const fileCount = new Set(workspaceEdit.entries().map(([uri]) => uri.path)).size;
+	vscode.window.showInformationMessage(`Applied replacements to ${fileCount} file(s).`);
+}
+
+/**
+ * Build a glob excluding everything excluded by the `files.exclude` and `search.exclude` settings
+ */
+function getWorkspaceExcludeGlob(): string | undefined {
+	const patterns = ['files', 'search'].flatMap(section => {
+		const excludes = vscode.workspace.getConfiguration(section).get<Record<string, unknown>>('exclude') ?? {};
+		return Object.entries(excludes).filter(([, enabled]) => enabled === true).map(([glob]) => glob);
+	});
+	return patterns.length > 0 ? `{${patterns.join(',')}}` : undefined;
+}
+
+/**
+ * Filter the cached replacements down to those that should run on a document
+ */
+function getApplicableReplacements(
+	document: vscode.TextDocument,
+	specificReplacementId?: string,
+	isCodeAction: boolean = false
+): ReplacementConfig[] {
+	if (getSkipReason(document)) {
+		return [];
+	}
+
+	// Filter replacements based on language, file path and specific ID if provided
+	let applicableReplacements = getReplacementsForUri(document.uri);
+
+	// Apply specific ID filter if specified. Otherwise only replacements that run on save apply,
+	// as commands and lint mode show what saving does.
+	if (specificReplacementId) {
+		applicableReplacements = applicableReplacements.filter(r => r.id === specificReplacementId);
+	} else {
+		applicableReplacements = applicableReplacements.filter(r => hasTrigger(r, 'save'));
+	}
+
+	// Apply language and file filters in two cases:
+	// 1. No specific ID was provided
+	// 2. A specific ID was provided AND this is a code action (e.g., on save)
+	if (!specificReplacementId || (specificReplacementId && isCodeAction)) {
+		applicableReplacements = applicableReplacements.filter(r => matchesDocumentFilters(r, document));
+	}
+
+	return applicableReplacements;
+}
+
+/**
+ * Get the replacements with a trigger other than save that should run on a document
+ */
+function getTriggeredReplacements(document: vscode.TextDocument, trigger: Exclude<ReplacementTrigger, 'save'>): ReplacementConfig[] {
+	if (getSkipReason(document)) {
+		return [];
+	}
+	return getReplacementsForUri(document.uri).filter(r => hasTrigger(r, trigger) && matchesDocumentFilters(r, document));
+}
+
+/**
+ * Check whether a replacement's language and include/exclude filters allow it to run on a document
+ */
+function matchesDocumentFilters(replacement: ReplacementConfig, document: vscode.TextDocument): boolean {
+	return matchesFilters(replacement, vscode.workspace.asRelativePath(document.uri, false), document.languageId);
+}
+
+/**
+ * Check whether a replacement's include/exclude filters allow it to run on a file
+ */
+function matchesFileFilters(replacement: ReplacementConfig, uri: vscode.Uri): boolean {
+	return matchesFilters(replacement, vscode.workspace.asRelativePath(uri, false));
+}
+
+/**
+ * Get the reason replacements don't run on a document, if its path matches `skipFiles` or it is larger than `maxFileSize`
+ */
+function getSkipReason(document: vscode.TextDocument): string | undefined {
+	// The offset of the end of the document is its length, without building the text
+	const length = document.offsetAt(document.lineAt(document.lineCount - 1).range.end);
+	return getSkipReasonForSize(document.uri, length);
+}
+
+/**
+ * Get the reason replacements don't run on a file, checked before opening it
+ */
+async function getFileSkipReason(uri: vscode.Uri): Promise<string | undefined> {
+	let size = 0;
+	try {
+		size = (await vscode.workspace.fs.stat(uri)).size;
+	} catch {
+		// Unreadable files are skipped when they fail to open
+	}
+	return getSkipReasonForSize(uri, size);
+}
+
+function getSkipReasonForSize(uri: vscode.Uri, size: number): string | undefined {
+	const config = vscode.workspace.getConfiguration('betterReplaceOnSave', uri);
+	const relativePath = vscode.workspace.asRelativePath(uri, false);
+	const skipFiles = config.get<string[]>('skipFiles') ?? [];
+	if (skipFiles.some(glob => matchesGlob(relativePath, glob))) {
+		return 'it matches betterReplaceOnSave.skipFiles';
+	}
+
+	const maxFileSize = config.get<number>('maxFileSize', defaultMaxFileSize);
+	if (maxFileSize > 0 && size > maxFileSize * 1024) {
+		return `it is larger than betterReplaceOnSave.maxFileSize (${maxFileSize} KB)`;
+	}
+	return undefined;
 }
 
 export function deactivate() { }
@@ -0,0 +1,66 @@
+// fileFormats.ts
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import * as jsonc from 'jsonc-parser';
+
+/**
+ * Parsing of replacement files, in the format given by their extension:
+ * - `.jsonc` -> JSON with comments and trailing commas
+ * - `.yaml`, `.yml` -> YAML, where regexes can be written without double escaping
+ * - anything else -> strict JSON
+ */
+
+export type ReplacementsFileFormat = 'json' | 'jsonc' | 'yaml';
+
+const formatNames: Record<ReplacementsFileFormat, string> = {
+	json: 'JSON',
+	jsonc: 'JSONC',
+	yaml: 'YAML',
+};
+
+/**
+ * An error parsing a replacements file, at an offset in its text
+ */
+export class ParseError extends Error {
+	constructor(message: string, readonly offset: number) {
+		super(message);
+		this.name = 'ParseError';
+	}
+}
+
+export function getReplacementsFileFormat(filePath: string): ReplacementsFileFormat {
+	switch (path.extname(filePath).toLowerCase()) {
+		case '.jsonc':
+			return 'jsonc';
+		case '.yaml':
+		case '.yml':
+			return 'yaml';
+		default:
+			return 'json';
+	}
+}
+
+/**
+ * Parse the text of a replacements file, throwing a ParseError if it is invalid
+ */
+export function parseReplacementsFile(text: string, format: ReplacementsFileFormat): unknown {
+	if (format === 'yaml') {
+		try {
+			return yaml.load(text);
+		} catch (error) {
+			if (error instanceof yaml.YAMLException) {
+				throw new ParseError(`Invalid YAML: ${error.reason}`, error.mark?.position ?? 0);
+			}
+			throw error;
+		}
+	}
+
+	const errors: jsonc.ParseError[] = [];
+	const value = jsonc.parse(text, errors, { disallowComments: format === 'json', allowTrailingComma: format === 'jsonc' });
+	if (errors.length > 0) {
+		// e.g. CommaExpected -> comma expected
+		const message = jsonc.printParseErrorCode(errors[0].error).replace(/(?<=[a-z])(?=[A-Z])/g, ' ').toLowerCase();
+		throw new ParseError(`Invalid ${formatNames[format]}: ${message}`, errors[0].offset);
+	}
+	return value;
+}
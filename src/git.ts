@@ -0,0 +1,133 @@
+// git.ts
+import * as vscode from 'vscode';
+import type { OffsetRange } from './engine';
+
+/**
+ * Find the lines of a document that have changed since the last commit, using
+ * the built-in Git extension to read the committed version of the file.
+ */
+
+// The parts of the Git extension API used here (see extensions/git/src/api/git.d.ts in VS Code)
+interface GitExtension {
+	getAPI(version: 1): GitAPI;
+}
+
+interface GitAPI {
+	getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitRepository {
+	show(ref: string, path: string): Promise<string>;
+}
+
+// Above this many line comparisons, changed regions are treated as entirely modified
+const maxDiffCells = 4_000_000;
+
+/**
+ * Get the ranges of a document covering lines that differ from HEAD. Returns
+ * undefined if the whole document should be treated as modified: when Git is
+ * unavailable, the file isn't in a repository, or it isn't in HEAD yet.
+ */
+export async function getModifiedRanges(document: vscode.TextDocument): Promise<OffsetRange[] | undefined> {
+	if (document.uri.scheme !== 'file') {
+		return undefined;
+	}
+
+	const repository = await getRepository(document.uri);
+	if (!repository) {
+		return undefined;
+	}
+
+	let committedText: string;
+	try {
+		committedText = await repository.show('HEAD', document.uri.fsPath);
+	} catch {
+		return undefined; // Untracked or new file
+	}
+
+	const text = document.getText();
+	const modifiedLines = findModifiedLines(committedText, text);
+
+	// Merge consecutive modified lines into a single range, so matches can span them
+	const ranges: OffsetRange[] = [];
+	let previousLine = -2;
+	for (const line of modifiedLines) {
+		const start = document.offsetAt(new vscode.Position(line, 0));
+		const end = document.offsetAt(document.lineAt(line).range.end);
+		if (line === previousLine + 1 && ranges.length > 0) {
+			ranges[ranges.length - 1].end = end;
+		} else {
+			ranges.push({ start, end });
+		}
+		previousLine = line;
+	}
+	return ranges;
+}
+
+async function getRepository(uri: vscode.Uri): Promise<GitRepository | undefined> {
+	const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+	if (!extension) {
+		return undefined;
+	}
+
+	try {
+		const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+		return gitExtension.getAPI(1).getRepository(uri) ?? undefined;
+	} catch {
+		return undefined; // Git is disabled or not installed
+	}
+}
+
+/**
+ * Find the zero-based lines of `newText` that were added or changed relative to `oldText`
+ */
+export function findModifiedLines(oldText: string, newText: string): number[] {
+	const oldLines = oldText.split(/\r?\n/);
+	const newLines = newText.split(/\r?\n/);
+
+	// Unchanged lines at the start and end don't need to be diffed
+	let prefix = 0;
+	while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+		suffix++;
+	}
+
+	const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+	const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+	const modified: number[] = [];
+
+	if (oldMiddle.length === 0 || oldMiddle.length * newMiddle.length > maxDiffCells) {
+		newMiddle.forEach((_, i) => modified.push(prefix + i));
+		return modified;
+	}
+
+	// Longest common subsequence of the changed region; lines of the new text outside it are modified
+	const columns = newMiddle.length + 1;
+	const lengths = new Uint32Array((oldMiddle.length + 1) * columns);
+	for (let i = oldMiddle.length - 1; i >= 0; i--) {
+		for (let j = newMiddle.length - 1; j >= 0; j--) {
+			lengths[i * columns + j] = oldMiddle[i] === newMiddle[j]
+				? lengths[(i + 1) * columns + j + 1] + 1
+				: Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+		}
+	}
+
+	let i = 0;
+	let j = 0;
+	while (j < newMiddle.length) {
+		if (i < oldMiddle.length && oldMiddle[i] === newMiddle[j]) {
+			i++;
+			j++;
+		} else if (i < oldMiddle.length && lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+			i++;
+		} else {
+			modified.push(prefix + j);
+			j++;
+		}
+	}
+	return modified;
+}
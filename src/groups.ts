@@ -0,0 +1,87 @@
+// groups.ts
+import * as vscode from 'vscode';
+
+/**
+ * Replacement groups: named sets of replacements (e.g. `"group": "python-cleanup"`)
+ * that can be enabled and disabled together. Disabled groups are stored in the
+ * `betterReplaceOnSave.disabledGroups` setting of the workspace.
+ */
+
+/**
+ * Get the groups disabled for a file, or for the workspace when no URI is given
+ */
+export function getDisabledGroups(uri?: vscode.Uri): string[] {
+	const disabledGroups: unknown = vscode.workspace.getConfiguration('betterReplaceOnSave', uri).get('disabledGroups');
+	return Array.isArray(disabledGroups) ? disabledGroups.filter(group => typeof group === 'string') : [];
+}
+
+/**
+ * Register the commands that enable and disable groups. `getGroups` returns the
+ * names of all configured groups, including disabled ones.
+ */
+export function registerGroupCommands(context: vscode.ExtensionContext, getGroups: () => string[]): void {
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.enableReplacementGroup', async (group?: string) => {
+			const disabledGroups = getDisabledGroups();
+			group ??= await pickGroup('Select a replacement group to enable', getGroups().filter(name => disabledGroups.includes(name)));
+			if (group !== undefined) {
+				await setDisabledGroups(disabledGroups.filter(name => name !== group));
+			}
+		})
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.disableReplacementGroup', async (group?: string) => {
+			const disabledGroups = getDisabledGroups();
+			group ??= await pickGroup('Select a replacement group to disable', getGroups().filter(name => !disabledGroups.includes(name)));
+			if (group !== undefined && !disabledGroups.includes(group)) {
+				await setDisabledGroups([...disabledGroups, group]);
+			}
+		})
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.selectReplacementGroups', async () => {
+			await selectGroups(getGroups());
+		})
+	);
+}
+
+async function pickGroup(placeHolder: string, groups: string[]): Promise<string | undefined> {
+	if (groups.length === 0) {
+		vscode.window.showInformationMessage('No matching replacement groups configured.');
+		return undefined;
+	}
+	return vscode.window.showQuickPick(groups, { placeHolder });
+}
+
+/**
+ * Show a multi-select quick pick to choose the enabled groups, switching between sets of groups in one step
+ */
+async function selectGroups(groups: string[]): Promise<void> {
+	if (groups.length === 0) {
+		vscode.window.showInformationMessage('No replacement groups configured.');
+		return;
+	}
+
+	const disabledGroups = getDisabledGroups();
+	const selected = await vscode.window.showQuickPick(
+		groups.map(group => ({ label: group, picked: !disabledGroups.includes(group) })),
+		{ canPickMany: true, placeHolder: 'Select the replacement groups to enable' }
+	);
+	if (!selected) {
+		return; // User canceled the selection
+	}
+
+	const enabledGroups = selected.map(item => item.label);
+	// Keep disabled groups that aren't currently configured, e.g. those of another folder's replacements files
+	const otherGroups = disabledGroups.filter(group => !groups.includes(group));
+	await setDisabledGroups([...otherGroups, ...groups.filter(group => !enabledGroups.includes(group))]);
+}
+
+/**
+ * Store the disabled groups for the workspace, or for the user when no folder is open
+ */
+async function setDisabledGroups(disabledGroups: string[]): Promise<void> {
+	const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+	await vscode.workspace.getConfiguration('betterReplaceOnSave')
+		.update('disabledGroups', disabledGroups.length > 0 ? disabledGroups : undefined, target);
+}
@@ -0,0 +1,65 @@
+// jsonLocations.ts
+import { Node, findNodeAtOffset, parseTree } from 'jsonc-parser';
+
+/**
+ * Locates values in JSON text, to map problems back to their location in
+ * replacement files and settings.json. Values are identified by the offset of
+ * their first character. JSONC comments and trailing commas are tolerated.
+ */
+
+// The tree of the last text searched, as problems are located one after another in the same text
+let lastTree: { text: string; root: Node | undefined } | undefined;
+
+function getTree(text: string): Node | undefined {
+	if (lastTree?.text !== text) {
+		lastTree = { text, root: parseTree(text, [], { allowTrailingComma: true }) };
+	}
+	return lastTree.root;
+}
+
+/**
+ * Find the value starting at `offset`
+ */
+function findValue(text: string, offset: number): Node | undefined {
+	const root = getTree(text);
+	const node = root && findNodeAtOffset(root, offset);
+	return node?.offset === offset ? node : undefined;
+}
+
+/**
+ * Return the offset of the top-level value, after any leading whitespace and comments
+ */
+export function findRootOffset(text: string): number {
+	return getTree(text)?.offset ?? 0;
+}
+
+/**
+ * Return the offset just past the JSON value starting at `offset`
+ */
+export function skipValue(text: string, offset: number): number {
+	const node = findValue(text, offset);
+	return node ? node.offset + node.length : offset;
+}
+
+/**
+ * Find the start offset of each element of the array starting at `arrayOffset`
+ */
+export function findArrayElementOffsets(text: string, arrayOffset: number): number[] {
+	const node = findValue(text, arrayOffset);
+	return node?.type === 'array' ? (node.children ?? []).map(element => element.offset) : [];
+}
+
+/**
+ * Find a property of the object starting at `objectOffset`, returning the offsets of its
+ * key and value. Like `JSON.parse`, the last of several properties with the same key is used.
+ */
+export function findPropertyOffsets(text: string, objectOffset: number, key: string): { keyOffset: number; valueOffset: number } | undefined {
+	const node = findValue(text, objectOffset);
+	if (node?.type !== 'object') {
+		return undefined;
+	}
+
+	const property = (node.children ?? []).filter(child => child.children?.[0].value === key).pop();
+	const value = property?.children?.[1];
+	return property && value ? { keyOffset: property.offset, valueOffset: value.offset } : undefined;
+}
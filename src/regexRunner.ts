@@ -0,0 +1,87 @@
+// regexRunner.ts
+import * as path from 'path';
+import { MessageChannel, MessagePort, Worker, receiveMessageOnPort } from 'worker_threads';
+import type { RegExpRequest, RegExpResponse } from './regexWorker';
+
+/**
+ * Running regexes with a time limit. Replacements run synchronously, so the main
+ * thread blocks until the worker thread responds or the time limit passes. When
+ * it passes, the worker is terminated and a new one is started for the next regex.
+ */
+
+interface RegExpWorker {
+	worker: Worker;
+	port: MessagePort;  // Receives responses
+	signal: Int32Array;  // Set to 1 by the worker when a response has been sent
+}
+
+let regExpWorker: RegExpWorker | undefined;
+
+/**
+ * Find all matches of a regex, returning undefined if it takes longer than `timeout` milliseconds
+ */
+export function matchAllWithTimeout(text: string, regExp: RegExp, timeout: number): RegExpMatchArray[] | undefined {
+	const response = runInWorker({ source: regExp.source, flags: regExp.flags, text, test: false }, timeout);
+	if (response === undefined) {
+		return undefined;
+	}
+	if (!('matches' in response)) {
+		throw new Error('error' in response ? response.error : 'Unexpected response from regex worker');
+	}
+
+	return response.matches.map(match =>
+		Object.assign([...match.groups], { index: match.index, input: text, groups: match.namedGroups }) as RegExpMatchArray);
+}
+
+/**
+ * Check whether a regex matches, returning undefined if it takes longer than `timeout` milliseconds
+ */
+export function testWithTimeout(text: string, regExp: RegExp, timeout: number): boolean | undefined {
+	const response = runInWorker({ source: regExp.source, flags: regExp.flags, text, test: true }, timeout);
+	if (response === undefined) {
+		return undefined;
+	}
+	if (!('matched' in response)) {
+		throw new Error('error' in response ? response.error : 'Unexpected response from regex worker');
+	}
+	return response.matched;
+}
+
+/**
+ * Stop the worker thread, if one is running
+ */
+export function disposeRegExpWorker(): void {
+	regExpWorker?.worker.terminate();
+	regExpWorker?.port.close();
+	regExpWorker = undefined;
+}
+
+function runInWorker(request: RegExpRequest, timeout: number): RegExpResponse | undefined {
+	const { worker, port, signal } = regExpWorker ??= startWorker();
+	Atomics.store(signal, 0, 0);
+	worker.postMessage(request);
+
+	if (Atomics.wait(signal, 0, 0, timeout) === 'timed-out') {
+		disposeRegExpWorker();
+		return undefined;
+	}
+	const response = receiveMessageOnPort(port);
+	if (!response) {
+		throw new Error('Regex worker signalled a response without sending one');
+	}
+	return response.message as RegExpResponse;
+}
+
+function startWorker(): RegExpWorker {
+	const { port1, port2 } = new MessageChannel();
+	const signal = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+	const worker = new Worker(path.join(__dirname, 'regexWorker.js'), {
+		workerData: { port: port2, signal },
+		transferList: [port2],
+	});
+
+	// The worker shouldn't keep the command line interface running once it's done
+	worker.unref();
+	port1.unref();
+	return { worker, port: port1, signal };
+}
@@ -0,0 +1,58 @@
+// regexWorker.ts
+import { MessagePort, parentPort, workerData } from 'worker_threads';
+
+/**
+ * Worker thread that runs regexes for regexRunner.ts, so a regex that backtracks
+ * catastrophically can be stopped by terminating the worker. Results are sent on a
+ * separate port and signalled through shared memory, so the main thread can wait
+ * for them synchronously.
+ */
+
+export interface RegExpRequest {
+	source: string;
+	flags: string;
+	text: string;
+	test: boolean;  // Only check whether the regex matches, rather than finding all matches
+}
+
+export interface SerializedMatch {
+	index: number;
+	groups: (string | undefined)[];  // The whole match, followed by each capture group
+	namedGroups?: Record<string, string | undefined>;
+}
+
+export type RegExpResponse = { matched: boolean } | { matches: SerializedMatch[] } | { error: string };
+
+const { port, signal } = workerData as { port: MessagePort; signal: Int32Array };
+const regExps = new Map<string, RegExp>();
+
+parentPort?.on('message', (request: RegExpRequest) => {
+	let response: RegExpResponse;
+	try {
+		const key = `${request.flags}/${request.source}`;
+		let regExp = regExps.get(key);
+		if (!regExp) {
+			regExp = new RegExp(request.source, request.flags);
+			regExps.set(key, regExp);
+		}
+
+		if (request.test) {
+			regExp.lastIndex = 0;
+			response = { matched: regExp.test(request.text) };
+		} else {
+			response = {
+				matches: [...request.text.matchAll(regExp)].map(match => ({
+					index: match.index,
+					groups: [...match],
+					namedGroups: match.groups,
+				})),
+			};
+		}
+	} catch (error) {
+		response = { error: error instanceof Error ? error.message : String(error) };
+	}
+
+	port.postMessage(response);
+	Atomics.store(signal, 0, 1);
+	Atomics.notify(signal, 0);
+});
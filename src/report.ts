@@ -0,0 +1,142 @@
+// report.ts
+import * as vscode from 'vscode';
+
+/**
+ * Reporting of what the extension does: an output channel logging each run and
+ * any problems loading replacements, and a status bar item summarising the last run.
+ */
+
+export type RunTrigger = 'save' | 'type' | 'paste' | 'create' | 'command' | 'workspace';
+
+/**
+ * The outcome of running replacements on a single document
+ */
+export interface RunReport {
+	uri: vscode.Uri;
+	trigger: RunTrigger;
+	counts: Map<string, number>;  // Number of matches replaced, by replacement label
+	duration: number;  // Milliseconds
+	aborted: string[];  // Labels of replacements aborted because a regex ran out of time
+}
+
+let outputChannel: vscode.LogOutputChannel | undefined;
+let statusBarItem: vscode.StatusBarItem | undefined;
+let lastReport: RunReport | undefined;
+const warnedAbortedReplacements = new Set<string>();  // Labels of aborted replacements the user has been warned about
+
+/**
+ * Create the output channel, status bar item and report command
+ */
+export function initializeReporting(context: vscode.ExtensionContext): void {
+	outputChannel = vscode.window.createOutputChannel('Better Replace-on-Save', { log: true });
+	context.subscriptions.push(outputChannel);
+
+	statusBarItem = vscode.window.createStatusBarItem('better-replace-on-save.lastRun', vscode.StatusBarAlignment.Right);
+	statusBarItem.name = 'Better Replace-on-Save';
+	statusBarItem.command = 'better-replace-on-save.showRunReport';
+	context.subscriptions.push(statusBarItem);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.showRunReport', showRunReport)
+	);
+}
+
+export function logInfo(message: string): void {
+	outputChannel?.info(message);
+}
+
+export function logWarning(message: string): void {
+	outputChannel?.warn(message);
+}
+
+export function logError(message: string, error?: unknown): void {
+	if (error === undefined) {
+		outputChannel?.error(message);
+	} else {
+		outputChannel?.error(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Log a run, and show it in the status bar unless it was part of a workspace-wide run
+ */
+export function reportRun(report: RunReport): void {
+	const total = getTotal(report);
+	const file = vscode.workspace.asRelativePath(report.uri);
+	const breakdown = [...report.counts].map(([label, count]) => `${label}: ${count}`).join(', ');
+	const message = `[${report.trigger}] ${file}: ${total} replacement(s) in ${report.duration}ms${breakdown ? ` (${breakdown})` : ''}`;
+	if (total > 0) {
+		outputChannel?.info(message);
+	} else {
+		outputChannel?.debug(message);
+	}
+	reportAbortedReplacements(report.uri, report.aborted);
+
+	if (report.trigger === 'workspace' || !statusBarItem) {
+		return;
+	}
+	lastReport = report;
+	statusBarItem.text = `$(replace-all) ${total}`;
+	statusBarItem.tooltip = `Better Replace-on-Save: ${total} replacement(s) in ${file} on last ${report.trigger === 'save' ? 'save' : 'run'}. Click for details.`;
+	statusBarItem.show();
+}
+
+/**
+ * Log each replacement that was aborted because a regex ran out of time, and warn about it once per replacement
+ */
+export function reportAbortedReplacements(uri: vscode.Uri, labels: string[]): void {
+	const file = vscode.workspace.asRelativePath(uri);
+	for (const label of labels) {
+		outputChannel?.warn(`${file}: replacement "${label}" was aborted, as its regex ran for longer than betterReplaceOnSave.regexTimeout`);
+		if (warnedAbortedReplacements.has(label)) {
+			continue;
+		}
+
+		warnedAbortedReplacements.add(label);
+		vscode.window.showWarningMessage(
+			`Replacement "${label}" was aborted in ${file}, as its regex took too long. It may backtrack catastrophically.`,
+			'Show Output'
+		).then(selection => {
+			if (selection) {
+				outputChannel?.show();
+			}
+		});
+	}
+}
+
+/**
+ * Get the report of the last run shown in the status bar, if there has been one
+ */
+export function getLastRunReport(): RunReport | undefined {
+	return lastReport;
+}
+
+function getTotal(report: RunReport): number {
+	return [...report.counts.values()].reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Show the per-replacement breakdown of the last run
+ */
+async function showRunReport(): Promise<void> {
+	if (!lastReport) {
+		vscode.window.showInformationMessage('No replacements have run yet.');
+		return;
+	}
+
+	const items: (vscode.QuickPickItem & { showOutput?: boolean })[] = [...lastReport.counts]
+		.sort(([, a], [, b]) => b - a)
+		.map(([label, count]) => ({ label, description: `${count} replacement(s)` }));
+	items.push(
+		{ label: '', kind: vscode.QuickPickItemKind.Separator },
+		{ label: '$(output) Show Output', showOutput: true }
+	);
+
+	const selected = await vscode.window.showQuickPick(items, {
+		title: `${vscode.workspace.asRelativePath(lastReport.uri)}: ${getTotal(lastReport)} replacement(s) in ${lastReport.duration}ms`,
+		placeHolder: lastReport.counts.size > 0 ? 'Replacements made, by rule' : 'No replacements were made'
+	});
+	if (selected?.showOutput) {
+		outputChannel?.show();
+	}
+}
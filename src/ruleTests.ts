@@ -0,0 +1,137 @@
+// ruleTests.ts
+import * as vscode from 'vscode';
+import type { ReplacementConfig } from './engine';
+
+/**
+ * Tests for replacement rules: each replacement's `tests` examples are shown in
+ * the Testing view, and running them checks that the replacement turns each
+ * `input` into its `output`.
+ */
+
+/**
+ * Run a single replacement on a test input, returning the output
+ */
+export type RuleTestRunner = (replacement: ReplacementConfig, input: string) => string;
+
+interface RuleTestCase {
+	replacement: ReplacementConfig;
+	input: string;
+	output: string;
+}
+
+let testController: vscode.TestController | undefined;
+let runRuleTest: RuleTestRunner | undefined;
+const testCases = new WeakMap<vscode.TestItem, RuleTestCase>();
+
+/**
+ * Create the test controller and the command that runs all rule tests
+ */
+export function initializeRuleTests(context: vscode.ExtensionContext, runner: RuleTestRunner): void {
+	runRuleTest = runner;
+	testController = vscode.tests.createTestController('better-replace-on-save.ruleTests', 'Replacement Rules');
+	context.subscriptions.push(testController);
+
+	testController.createRunProfile('Run', vscode.TestRunProfileKind.Run, (request, token) => {
+		runTests(request, token);
+	}, true);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('better-replace-on-save.runRuleTests', () => {
+			if (!testController || testController.items.size === 0) {
+				vscode.window.showInformationMessage('No replacements have tests configured.');
+				return undefined;
+			}
+
+			const result = runTests(new vscode.TestRunRequest(), new vscode.CancellationTokenSource().token);
+			const message = `${result.passed} of ${result.total} replacement rule test(s) passed.`;
+			if (result.passed === result.total) {
+				vscode.window.showInformationMessage(message);
+			} else {
+				vscode.window.showWarningMessage(message, 'Show Test Results').then(selection => {
+					if (selection) {
+						vscode.commands.executeCommand('workbench.view.testing.focus');
+					}
+				});
+			}
+			return result;
+		})
+	);
+}
+
+/**
+ * Replace the test items with those of the given replacements. Each replacement
+ * with tests is an item, with a child item for each test.
+ */
+export function updateRuleTests(replacements: ReplacementConfig[], getLabel: (replacement: ReplacementConfig) => string): void {
+	if (!testController) {
+		return;
+	}
+
+	const controller = testController;
+	const items = replacements.flatMap((replacement, index) => {
+		if (!replacement.tests || replacement.tests.length === 0) {
+			return [];
+		}
+
+		const label = getLabel(replacement);
+		const item = controller.createTestItem(`${index}:${label}`, label);
+		replacement.tests.forEach((test, testIndex) => {
+			const child = controller.createTestItem(`${item.id}/${testIndex}`, `Example ${testIndex + 1}`);
+			child.description = test.input.split('\n')[0];
+			testCases.set(child, { replacement, input: test.input, output: test.output });
+			item.children.add(child);
+		});
+		return [item];
+	});
+	controller.items.replace(items);
+}
+
+function runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): { passed: number; total: number } {
+	if (!testController) {
+		return { passed: 0, total: 0 };
+	}
+
+	// Collect the test cases to run, expanding replacements into their tests
+	const cases: vscode.TestItem[] = [];
+	const collect = (item: vscode.TestItem) => {
+		if (request.exclude?.includes(item)) {
+			return;
+		}
+		if (testCases.has(item)) {
+			cases.push(item);
+		}
+		item.children.forEach(collect);
+	};
+	if (request.include) {
+		request.include.forEach(collect);
+	} else {
+		testController.items.forEach(collect);
+	}
+
+	const run = testController.createTestRun(request);
+	let passed = 0;
+	for (const item of cases) {
+		if (token.isCancellationRequested) {
+			run.skipped(item);
+			continue;
+		}
+
+		const testCase = testCases.get(item)!;
+		run.started(item);
+		const start = Date.now();
+		try {
+			const actual = runRuleTest ? runRuleTest(testCase.replacement, testCase.input) : testCase.input;
+			if (actual === testCase.output) {
+				run.passed(item, Date.now() - start);
+				passed++;
+			} else {
+				run.failed(item, vscode.TestMessage.diff('Output does not match the expected output', testCase.output, actual), Date.now() - start);
+			}
+		} catch (error) {
+			run.errored(item, new vscode.TestMessage(error instanceof Error ? error.message : String(error)), Date.now() - start);
+		}
+	}
+	run.end();
+
+	return { passed, total: cases.length };
+}
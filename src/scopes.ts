@@ -0,0 +1,231 @@
+// scopes.ts
+
+/**
+ * Lightweight tokenizer that splits text into code, comment and string regions,
+ * so replacements can be restricted to one kind of region. It knows the comment
+ * and string syntax of common languages, but not their full grammar (e.g. JS
+ * regex literals are treated as code).
+ */
+
+export type ReplacementScope = 'code' | 'comment' | 'string';
+
+export const replacementScopes: ReplacementScope[] = ['code', 'comment', 'string'];
+
+export interface ScopeRange {
+	start: number;
+	end: number;
+	scope: ReplacementScope;
+}
+
+interface Delimiter {
+	open: string;
+	close: string;
+	multiline: boolean;  // Whether the region can continue past the end of a line
+	escapes: boolean;  // Whether backslash escapes the next character
+	precededBy?: RegExp;  // Must match the text of the line before the delimiter for it to open a region
+}
+
+interface LanguageSyntax {
+	comments: Delimiter[];
+	strings: Delimiter[];
+}
+
+const cStyleComments: Delimiter[] = [
+	{ open: '//', close: '\n', multiline: false, escapes: false },
+	{ open: '/*', close: '*/', multiline: true, escapes: false },
+];
+
+const hashComments: Delimiter[] = [
+	{ open: '#', close: '\n', multiline: false, escapes: false },
+];
+
+// In shell-like languages and YAML, `#` inside a word (e.g. `${#array[@]}` or a URL) isn't a comment
+const spacedHashComments: Delimiter[] = [
+	{ open: '#', close: '\n', multiline: false, escapes: false, precededBy: /(^|\s)$/ },
+];
+
+const quotedStrings: Delimiter[] = [
+	{ open: '"', close: '"', multiline: false, escapes: true },
+	{ open: '\'', close: '\'', multiline: false, escapes: true },
+];
+
+const cStyleSyntax: LanguageSyntax = {
+	comments: cStyleComments,
+	strings: [...quotedStrings, { open: '`', close: '`', multiline: true, escapes: true }],
+};
+
+const pythonSyntax: LanguageSyntax = {
+	comments: hashComments,
+	strings: [
+		// Triple quotes must be tried before single quotes
+		{ open: '"""', close: '"""', multiline: true, escapes: true },
+		{ open: '\'\'\'', close: '\'\'\'', multiline: true, escapes: true },
+		...quotedStrings,
+	],
+};
+
+const jsonSyntax: LanguageSyntax = {
+	comments: cStyleComments,
+	strings: [{ open: '"', close: '"', multiline: false, escapes: true }],
+};
+
+const hashStrings: Delimiter[] = [
+	{ open: '"', close: '"', multiline: true, escapes: true },
+	{ open: '\'', close: '\'', multiline: true, escapes: false },
+];
+
+const hashSyntax: LanguageSyntax = {
+	comments: hashComments,
+	strings: hashStrings,
+};
+
+const shellSyntax: LanguageSyntax = {
+	comments: spacedHashComments,
+	strings: hashStrings,
+};
+
+// YAML quotes only start a string at the start of a value, so `name: it's` is a plain value
+const yamlValueStart = /(^\s*|[:?-]\s+|[[{,]\s*)$/;
+
+const yamlSyntax: LanguageSyntax = {
+	comments: spacedHashComments,
+	strings: [
+		{ open: '"', close: '"', multiline: true, escapes: true, precededBy: yamlValueStart },
+		{ open: '\'', close: '\'', multiline: false, escapes: false, precededBy: yamlValueStart },
+	],
+};
+
+const languageSyntaxes: Record<string, LanguageSyntax> = {
+	javascript: cStyleSyntax,
+	javascriptreact: cStyleSyntax,
+	typescript: cStyleSyntax,
+	typescriptreact: cStyleSyntax,
+	c: cStyleSyntax,
+	cpp: cStyleSyntax,
+	csharp: cStyleSyntax,
+	java: cStyleSyntax,
+	go: cStyleSyntax,
+	rust: cStyleSyntax,
+	python: pythonSyntax,
+	json: jsonSyntax,
+	jsonc: jsonSyntax,
+	shellscript: shellSyntax,
+	makefile: hashSyntax,
+	dockerfile: shellSyntax,
+	yaml: yamlSyntax,
+	toml: hashSyntax,
+	ruby: hashSyntax,
+	perl: shellSyntax,
+	r: hashSyntax,
+	powershell: shellSyntax,
+};
+
+/**
+ * Split text into consecutive code, comment and string ranges. Text in
+ * languages without known syntax is all treated as code.
+ */
+export function tokenizeScopes(text: string, languageId: string): ScopeRange[] {
+	const syntax = languageSyntaxes[languageId];
+	if (!syntax) {
+		return [{ start: 0, end: text.length, scope: 'code' }];
+	}
+
+	const ranges: ScopeRange[] = [];
+	const push = (start: number, end: number, scope: ReplacementScope) => {
+		if (end <= start) {
+			return;
+		}
+		const previous = ranges[ranges.length - 1];
+		if (previous && previous.scope === scope && previous.end === start) {
+			previous.end = end;
+		} else {
+			ranges.push({ start, end, scope });
+		}
+	};
+
+	let codeStart = 0;
+	let i = 0;
+	while (i < text.length) {
+		const comment = syntax.comments.find(delimiter => opensAt(text, i, delimiter));
+		const string = comment ? undefined : syntax.strings.find(delimiter => opensAt(text, i, delimiter));
+		const delimiter = comment ?? string;
+		if (!delimiter) {
+			i++;
+			continue;
+		}
+
+		push(codeStart, i, 'code');
+		const end = findClose(text, i + delimiter.open.length, delimiter);
+		push(i, end, comment ? 'comment' : 'string');
+		i = end;
+		codeStart = end;
+	}
+	push(codeStart, text.length, 'code');
+
+	return ranges;
+}
+
+/**
+ * Check whether a delimiter opens a region at an offset
+ */
+function opensAt(text: string, offset: number, delimiter: Delimiter): boolean {
+	if (!text.startsWith(delimiter.open, offset)) {
+		return false;
+	}
+	if (!delimiter.precededBy) {
+		return true;
+	}
+	const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+	return delimiter.precededBy.test(text.slice(lineStart, offset));
+}
+
+/**
+ * Find the end offset of a region, including its closing delimiter. Line comments
+ * end before the newline, and unterminated single-line strings end at the newline.
+ */
+function findClose(text: string, offset: number, delimiter: Delimiter): number {
+	let i = offset;
+	while (i < text.length) {
+		if (delimiter.escapes && text[i] === '\\') {
+			i += 2;
+			continue;
+		}
+		if (text.startsWith(delimiter.close, i)) {
+			return delimiter.close === '\n' ? i : i + delimiter.close.length;
+		}
+		if (!delimiter.multiline && text[i] === '\n') {
+			return i;
+		}
+		i++;
+	}
+	return text.length;
+}
+
+/**
+ * Check whether the range from `start` to `end` lies entirely within regions of
+ * the allowed scopes. Empty ranges use the scope of the character at `start`.
+ */
+export function isInScope(ranges: ScopeRange[], start: number, end: number, allowed: ReplacementScope[]): boolean {
+	// Binary search for the range containing `start`
+	let low = 0;
+	let high = ranges.length - 1;
+	while (low < high) {
+		const middle = Math.floor((low + high + 1) / 2);
+		if (ranges[middle].start <= start) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+
+	for (let i = low; i < ranges.length; i++) {
+		const range = ranges[i];
+		if (!allowed.includes(range.scope)) {
+			return false;
+		}
+		if (range.end >= end) {
+			return true;
+		}
+	}
+	return true;
+}
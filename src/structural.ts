@@ -0,0 +1,319 @@
+// structural.ts
+import type * as ts from 'typescript';
+
+/**
+ * Structural replacements: the search string is a TypeScript/JavaScript code pattern
+ * matched against the syntax tree, rather than a regex matched against the text, so
+ * nested and multi-line code is matched reliably. Metavariables in the pattern match
+ * any code:
+ * - `$NAME` matches a single node, e.g. an expression, statement or type
+ * - `$$NAME` matches any number of items in a list, e.g. arguments or statements
+ * Metavariable names are upper case, so identifiers like `$el` still match literally.
+ * A metavariable used more than once must match the same code each time. In the
+ * replace string, metavariables are replaced by the code they matched.
+ */
+
+export const structuralLanguages = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact'];
+
+export interface StructuralMatch {
+	start: number;
+	end: number;
+	text: string;
+}
+
+interface MatchState {
+	sourceFile: ts.SourceFile;
+	bindings: Map<string, string>;  // Text matched by each metavariable
+}
+
+const metavariableName = /^\$\$?[A-Z_][A-Z0-9_]*$/;
+const metavariablePattern = /\$\$?[A-Z_][A-Z0-9_]*/g;
+const templateMetavariablePattern = /([ \t]*)(\$\$?[A-Z_][A-Z0-9_]*)([ \t]*)/g;
+
+// Some syntax is stored in properties rather than child nodes, e.g. the operator of `!x`
+const syntaxProperties = ['operator', 'keywordToken', 'token'];
+
+// The compiler is large, so it's only loaded once a structural replacement runs
+let typescript: typeof ts | undefined;
+
+// Parsed patterns by search string, and the last document parsed, as several replacements usually run on it in turn
+const patterns = new Map<string, ts.Node>();
+let lastParsed: { text: string; scriptKind: ts.ScriptKind; sourceFile: ts.SourceFile } | undefined;
+
+function loadTypeScript(): typeof ts {
+	typescript ??= require('typescript') as typeof ts;
+	return typescript;
+}
+
+/**
+ * Check a structural replacement, returning a problem with its search or replace string if there is one
+ */
+export function validateStructuralReplacement(search: string, replace: string): { message: string; property: 'search' | 'replace' } | undefined {
+	let pattern: ts.Node;
+	try {
+		pattern = getPattern(search);
+	} catch (error) {
+		return { message: error instanceof Error ? error.message : String(error), property: 'search' };
+	}
+	if (getMetavariable(pattern) !== undefined) {
+		return { message: 'Structural pattern must contain code besides a metavariable, or it would match everything', property: 'search' };
+	}
+
+	const metavariables = new Set(search.match(metavariablePattern) ?? []);
+	const unknown = (replace.match(metavariablePattern) ?? []).find(name => !metavariables.has(name));
+	if (unknown !== undefined) {
+		return { message: `Metavariable ${unknown} isn't in the search pattern`, property: 'replace' };
+	}
+	return undefined;
+}
+
+/**
+ * Find the matches of a structural pattern in a document, in order. Where matches are
+ * nested, only the outermost is returned. Returns no matches for unsupported languages.
+ */
+export function findStructuralMatches(text: string, search: string, replace: string, languageId?: string): StructuralMatch[] {
+	const scriptKind = getScriptKind(languageId);
+	if (scriptKind === undefined) {
+		return [];
+	}
+
+	const typescript = loadTypeScript();
+	const pattern = getPattern(search);
+	if (lastParsed?.text !== text || lastParsed.scriptKind !== scriptKind) {
+		const sourceFile = typescript.createSourceFile('document', text, typescript.ScriptTarget.Latest, true, scriptKind);
+		lastParsed = { text, scriptKind, sourceFile };
+	}
+	const sourceFile = lastParsed.sourceFile;
+
+	// A pattern without a trailing semicolon leaves the semicolon of matched statements in place
+	const keepSemicolons = !search.trim().endsWith(';');
+
+	const matches: StructuralMatch[] = [];
+	const visit = (node: ts.Node) => {
+		const state: MatchState = { sourceFile, bindings: new Map() };
+		if (matchNode(pattern, node, state)) {
+			matches.push({
+				start: node.getStart(sourceFile),
+				end: keepSemicolons && text[node.end - 1] === ';' ? node.end - 1 : node.end,
+				text: expandMetavariables(replace, state.bindings),
+			});
+			return;
+		}
+		typescript.forEachChild(node, visit);
+	};
+	typescript.forEachChild(sourceFile, visit);
+	return matches;
+}
+
+function getScriptKind(languageId?: string): ts.ScriptKind | undefined {
+	const { ScriptKind } = loadTypeScript();
+	switch (languageId) {
+		case undefined:
+		case 'typescript':
+			return ScriptKind.TS;
+		case 'typescriptreact':
+			return ScriptKind.TSX;
+		case 'javascript':
+			return ScriptKind.JS;
+		case 'javascriptreact':
+			return ScriptKind.JSX;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Parse a pattern, throwing an error if it isn't a single expression or statement.
+ * An expression statement without a semicolon is matched as an expression, so it
+ * also matches inside other code.
+ */
+function getPattern(search: string): ts.Node {
+	const cached = patterns.get(search);
+	if (cached) {
+		return cached;
+	}
+
+	// Patterns are parsed as TypeScript, falling back to TSX for JSX patterns
+	const typescript = loadTypeScript();
+	let sourceFile = parsePattern(search, typescript.ScriptKind.TS);
+	if (getParseErrors(sourceFile).length > 0) {
+		const tsxSourceFile = parsePattern(search, typescript.ScriptKind.TSX);
+		if (getParseErrors(tsxSourceFile).length === 0) {
+			sourceFile = tsxSourceFile;
+		}
+	}
+
+	const [error] = getParseErrors(sourceFile);
+	if (error) {
+		throw new Error(`Invalid structural pattern: ${typescript.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+	}
+	if (sourceFile.statements.length !== 1) {
+		throw new Error('Structural pattern must be a single expression or statement');
+	}
+
+	const [statement] = sourceFile.statements;
+	const pattern = typescript.isExpressionStatement(statement) && !search.trim().endsWith(';') ? statement.expression : statement;
+	patterns.set(search, pattern);
+	return pattern;
+}
+
+function parsePattern(search: string, scriptKind: ts.ScriptKind): ts.SourceFile {
+	const typescript = loadTypeScript();
+	return typescript.createSourceFile('pattern', search, typescript.ScriptTarget.Latest, true, scriptKind);
+}
+
+function getParseErrors(sourceFile: ts.SourceFile): readonly ts.Diagnostic[] {
+	// Syntax errors aren't part of the public API without creating a program, but have been stable for years
+	return (sourceFile as unknown as { parseDiagnostics?: ts.Diagnostic[] }).parseDiagnostics ?? [];
+}
+
+/**
+ * Get the name of the metavariable a pattern node consists of, if any. Depending on where
+ * they are, metavariables are parsed as identifiers wrapped in other nodes, e.g. expression
+ * statements or JSX attributes, so the node's code is checked rather than its kind.
+ */
+function getMetavariable(node: ts.Node): string | undefined {
+	const text = node.getText().replace(/;$/, '');
+	return metavariableName.test(text) ? text : undefined;
+}
+
+function matchNode(pattern: ts.Node, target: ts.Node, state: MatchState): boolean {
+	const metavariable = getMetavariable(pattern);
+	if (metavariable !== undefined) {
+		return bind(metavariable, [target], state);
+	}
+
+	if (pattern.kind !== target.kind || !hasSameSyntaxProperties(pattern, target)) {
+		return false;
+	}
+
+	const patternChildren = getChildren(pattern);
+	const targetChildren = getChildren(target);
+	if (patternChildren.length === 0 && targetChildren.length === 0) {
+		// Tokens, identifiers and literals; literals compare by value, so 'a' matches "a"
+		return getTokenText(pattern) === getTokenText(target, state.sourceFile);
+	}
+	if (patternChildren.length !== targetChildren.length) {
+		return false;
+	}
+
+	return patternChildren.every((patternChild, i) => {
+		const targetChild = targetChildren[i];
+		if (Array.isArray(patternChild) !== Array.isArray(targetChild)) {
+			return false;
+		}
+		return Array.isArray(patternChild)
+			? matchList(patternChild, targetChild as readonly ts.Node[], state)
+			: matchNode(patternChild as ts.Node, targetChild as ts.Node, state);
+	});
+}
+
+/**
+ * Match a list of pattern nodes against a list of nodes. List metavariables match any
+ * number of nodes, so each possible length is tried until the rest of the list matches.
+ */
+function matchList(patterns: readonly ts.Node[], targets: readonly ts.Node[], state: MatchState): boolean {
+	if (patterns.length === 0) {
+		return targets.length === 0;
+	}
+
+	const [first, ...rest] = patterns;
+	const metavariable = getMetavariable(first);
+	if (metavariable?.startsWith('$$') && rest.length === 0 && isNodeArray(targets)) {
+		return bindText(metavariable, getListText(targets, state.sourceFile), state);
+	}
+	if (metavariable?.startsWith('$$')) {
+		for (let count = 0; count <= targets.length; count++) {
+			const bindings = new Map(state.bindings);
+			if (bind(metavariable, targets.slice(0, count), state) && matchList(rest, targets.slice(count), state)) {
+				return true;
+			}
+			state.bindings = bindings;
+		}
+		return false;
+	}
+	return targets.length > 0 && matchNode(first, targets[0], state) && matchList(rest, targets.slice(1), state);
+}
+
+/**
+ * Bind a metavariable to the code of the given nodes. If it is already bound, the code must be the same.
+ */
+function bind(metavariable: string, nodes: readonly ts.Node[], state: MatchState): boolean {
+	const text = nodes.length > 0
+		? state.sourceFile.text.substring(nodes[0].getStart(state.sourceFile), nodes[nodes.length - 1].end)
+		: '';
+	return bindText(metavariable, text, state);
+}
+
+function bindText(metavariable: string, text: string, state: MatchState): boolean {
+	const bound = state.bindings.get(metavariable);
+	if (bound !== undefined) {
+		return bound === text;
+	}
+	state.bindings.set(metavariable, text);
+	return true;
+}
+
+function isNodeArray(nodes: readonly ts.Node[]): nodes is ts.NodeArray<ts.Node> {
+	return 'pos' in nodes;
+}
+
+/**
+ * Get the code of a whole list, e.g. all arguments of a call. When the list is split over
+ * several lines, the line breaks and indentation around it are kept, so it keeps its layout.
+ */
+function getListText(list: ts.NodeArray<ts.Node>, sourceFile: ts.SourceFile): string {
+	if (list.length === 0) {
+		return '';
+	}
+
+	const text = sourceFile.text;
+	const start = list[0].getStart(sourceFile);
+	const end = list[list.length - 1].end;
+	let trailingEnd = list.hasTrailingComma ? text.indexOf(',', end) + 1 : end;
+	while (trailingEnd < text.length && /\s/.test(text[trailingEnd])) {
+		trailingEnd++;
+	}
+
+	const leading = text.substring(list.pos, start);
+	const trailing = text.substring(end, trailingEnd);
+	return (leading.includes('\n') ? leading : '') + text.substring(start, end) + (trailing.includes('\n') ? trailing : '');
+}
+
+/**
+ * Replace the metavariables in a replace string with the code they matched. Spaces next
+ * to a metavariable are dropped where its code starts or ends with a line break.
+ */
+function expandMetavariables(replace: string, bindings: Map<string, string>): string {
+	return replace.replace(templateMetavariablePattern, (match, before: string, name: string, after: string) => {
+		const text = bindings.get(name);
+		if (text === undefined) {
+			return match;
+		}
+		return (/^[ \t]*\r?\n/.test(text) ? '' : before) + text + (/\n[ \t]*$/.test(text) ? '' : after);
+	});
+}
+
+function getChildren(node: ts.Node): (ts.Node | readonly ts.Node[])[] {
+	const children: (ts.Node | readonly ts.Node[])[] = [];
+	loadTypeScript().forEachChild(node, child => {
+		children.push(child);
+	}, array => {
+		children.push(array);
+	});
+	return children;
+}
+
+function hasSameSyntaxProperties(pattern: ts.Node, target: ts.Node): boolean {
+	const { NodeFlags } = loadTypeScript();
+	const patternProperties = pattern as unknown as Record<string, unknown>;
+	const targetProperties = target as unknown as Record<string, unknown>;
+	// `let`, `const` and `using` are flags of variable declaration lists
+	return syntaxProperties.every(property => patternProperties[property] === targetProperties[property]) &&
+		(pattern.flags & NodeFlags.BlockScoped) === (target.flags & NodeFlags.BlockScoped);
+}
+
+function getTokenText(node: ts.Node, sourceFile?: ts.SourceFile): string {
+	const text = (node as { text?: unknown }).text;
+	return typeof text === 'string' ? text : node.getText(sourceFile);
+}
@@ -0,0 +1,131 @@
+// templates.ts
+
+/**
+ * Expansion of replacement strings. On top of the `$` patterns supported by
+ * `String.prototype.replace`, templates support case modifiers, transforms and
+ * variables:
+ * - \U$1, \L$1, \u$1, \l$1 -> upper/lower case the reference, or just its first character
+ * - ${1}, ${name} -> numbered or named capture groups
+ * - ${1:/upcase}, ${name:/snakecase} -> a group with a transform applied
+ * - ${fileBasename}, ${date}, ${lineNumber}, ... -> variables, optionally with a transform
+ */
+
+const transforms: Record<string, (text: string) => string> = {
+	upcase: text => text.toUpperCase(),
+	downcase: text => text.toLowerCase(),
+	capitalize: text => text.charAt(0).toUpperCase() + text.slice(1),
+	uncapitalize: text => text.charAt(0).toLowerCase() + text.slice(1),
+	camelcase: text => splitWords(text).map((word, i) => i === 0 ? word.toLowerCase() : capitalizeWord(word)).join(''),
+	pascalcase: text => splitWords(text).map(capitalizeWord).join(''),
+	snakecase: text => splitWords(text).map(word => word.toLowerCase()).join('_'),
+	kebabcase: text => splitWords(text).map(word => word.toLowerCase()).join('-'),
+};
+
+// Case modifiers (e.g. `\U$1`) are shorthands for transforms
+const caseModifiers: Record<string, string> = {
+	U: 'upcase',
+	L: 'downcase',
+	u: 'capitalize',
+	l: 'uncapitalize',
+};
+
+export const transformNames = Object.keys(transforms);
+
+/**
+ * Split an identifier or phrase into words, at separators and camelCase boundaries
+ */
+function splitWords(text: string): string[] {
+	return text
+		.replace(/(\p{Ll}|\p{N})(\p{Lu})/gu, '$1 $2')
+		.replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, '$1 $2')
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(word => word.length > 0);
+}
+
+function capitalizeWord(word: string): string {
+	return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Find transforms used in a template that don't exist
+ */
+export function findUnknownTransforms(template: string): string[] {
+	return [...template.matchAll(/\$\{[^}:]+:\/(\w+)\}/g)]
+		.map(match => match[1])
+		.filter(name => transforms[name] === undefined);
+}
+
+/**
+ * Expand a replacement template for a single match. `variables` provides the
+ * values of `${name}` variables; `${lineNumber}` is computed from the match.
+ */
+export function expandReplacementTemplate(template: string, match: RegExpMatchArray, variables: Record<string, string> = {}): string {
+	const input = match.input ?? '';
+	const index = match.index ?? 0;
+	const groupCount = match.length - 1;
+
+	const resolveReference = (key: string): string | undefined => {
+		if (key === '$') {
+			return '$';
+		}
+		if (key === '&') {
+			return match[0];
+		}
+		if (key === '`') {
+			return input.substring(0, index);
+		}
+		if (key === "'") {
+			return input.substring(index + match[0].length);
+		}
+		if (key.startsWith('<')) {
+			return match.groups ? match.groups[key.slice(1, -1)] ?? '' : undefined;
+		}
+		return undefined;
+	};
+
+	const resolveName = (name: string): string | undefined => {
+		if (/^\d+$/.test(name)) {
+			const group = parseInt(name, 10);
+			return group <= groupCount ? match[group] ?? '' : undefined;
+		}
+		if (match.groups && name in match.groups) {
+			return match.groups[name] ?? '';
+		}
+		if (name === 'lineNumber') {
+			return String(input.substring(0, index).split('\n').length);
+		}
+		return variables[name];
+	};
+
+	const pattern = /(?:\\([ULul]))?\$(?:(\$|&|`|'|\d{1,2}|<[^>]*>)|\{([^}:]+)(?::\/(\w+))?\})/g;
+	return template.replace(pattern, (token, modifier: string | undefined, key: string | undefined, name: string | undefined, transform: string | undefined) => {
+		let value: string | undefined;
+		let rest = '';
+		if (key !== undefined && /^\d/.test(key)) {
+			// Prefer a two-digit group reference, falling back to one digit
+			const twoDigit = parseInt(key, 10);
+			const oneDigit = parseInt(key[0], 10);
+			if (key.length === 2 && twoDigit >= 1 && twoDigit <= groupCount) {
+				value = match[twoDigit] ?? '';
+			} else if (oneDigit >= 1 && oneDigit <= groupCount) {
+				value = match[oneDigit] ?? '';
+				rest = key.slice(1);
+			}
+		} else if (key !== undefined) {
+			value = resolveReference(key);
+		} else if (name !== undefined) {
+			value = resolveName(name);
+		}
+
+		if (value === undefined || (transform !== undefined && transforms[transform] === undefined)) {
+			return token;
+		}
+		if (transform !== undefined) {
+			value = transforms[transform](value);
+		}
+		if (modifier !== undefined) {
+			value = transforms[caseModifiers[modifier]](value);
+		}
+		return value + rest;
+	});
+}
@@ -4,8 +4,10 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as os from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 
-import { ReplacementConfig, expandVariables } from '../extension';
+import { ReplacementConfig, ReplacementPasteEditProvider, computeReplacementEdits, expandVariables, getLastRunReport, matchesGlob, validateReplacements } from '../extension';
 
 suite('Extension Test Suite', () => {
 	const workspaceFolder = path.resolve(__dirname, '..', '..', 'test-fixtures');
@@ -20,6 +22,14 @@ suite('Extension Test Suite', () => {
 			.update('replacements', [], vscode.ConfigurationTarget.Global);
 		await vscode.workspace.getConfiguration('betterReplaceOnSave')
 			.update('replacementsFiles', [], vscode.ConfigurationTarget.Global);
+		await vscode.workspace.getConfiguration('betterReplaceOnSave')
+			.update('lint', undefined, vscode.ConfigurationTarget.Global);
+		await vscode.workspace.getConfiguration('betterReplaceOnSave')
+			.update('disabledGroups', undefined, vscode.ConfigurationTarget.Workspace);
+		for (const setting of ['regexTimeout', 'maxFileSize', 'skipFiles', 'typeDebounce']) {
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update(setting, undefined, vscode.ConfigurationTarget.Global);
+		}
 
 		// Reset code actions on save
 		await vscode.workspace.getConfiguration('editor').update('codeActionsOnSave', {},
@@ -32,6 +42,7 @@ suite('Extension Test Suite', () => {
 	// Helper functions to reduce duplication
 	async function createTestFile(fileName: string, content: string): Promise<vscode.TextDocument> {
 		const filePath = path.join(workspaceFolder, fileName);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
 		await fs.writeFile(filePath, content, 'utf-8');
 		const doc = await vscode.workspace.openTextDocument(filePath);
 		await vscode.window.showTextDocument(doc);
@@ -50,6 +61,7 @@ suite('Extension Test Suite', () => {
 
 	async function createReplacementFile(fileName: string, replacements: ReplacementConfig[]): Promise<string> {
 		const filePath = path.join(workspaceFolder, fileName);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
 		await fs.writeFile(filePath, JSON.stringify(replacements, null, 2), 'utf-8');
 		return filePath;
 	}
@@ -59,6 +71,12 @@ suite('Extension Test Suite', () => {
 			.update('codeActionsOnSave', codeActionConfig, vscode.ConfigurationTarget.Global);
 	}
 
+	async function makeDirty(doc: vscode.TextDocument): Promise<void> {
+		const edit = new vscode.WorkspaceEdit();
+		edit.insert(doc.uri, doc.positionAt(doc.getText().length), ' ');
+		await vscode.workspace.applyEdit(edit);
+	}
+
 	async function assertReplacement(doc: vscode.TextDocument, expected: string, message?: string): Promise<void> {
 		const content = doc.getText();
 		assert.strictEqual(content, expected, message);
@@ -138,6 +156,353 @@ suite('Extension Test Suite', () => {
 		});
 	});
 
+	suite('Replacement pipeline', () => {
+		test('Later replacements see the output of earlier ones', async () => {
+			await configureReplacements([
+				{
+					search: "'",
+					replace: '"'
+				},
+				{
+					search: 'require\\("(.*)"\\)',
+					replace: 'import("$1")'
+				}
+			]);
+
+			const doc = await runCommandOnFile(
+				'pipeline-chained.testfile.js',
+				"const a = require('a');",
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'const a = import("a");');
+		});
+
+		test('Overlapping replacements do not clobber each other', async () => {
+			await configureReplacements([
+				{
+					search: 'foo',
+					replace: 'foobar'
+				},
+				{
+					search: 'oba',
+					replace: 'OBA'
+				}
+			]);
+
+			const doc = await runCommandOnFile(
+				'pipeline-overlapping.testfile.txt',
+				'foo',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'foOBAr');
+		});
+
+		test('Replacements run in ascending order', async () => {
+			await configureReplacements([
+				{
+					search: 'b',
+					replace: 'c',
+					order: 2
+				},
+				{
+					search: 'a',
+					replace: 'b',
+					order: 1
+				}
+			]);
+
+			const doc = await runCommandOnFile(
+				'pipeline-order.testfile.txt',
+				'a',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'c');
+		});
+	});
+
+	suite('Preview functionality', () => {
+		test('Edits are reported against the original text with their replacement IDs', () => {
+			const edits = computeReplacementEdits('foo bar', [
+				{
+					id: 'fooToBaz',
+					search: 'foo',
+					replace: 'baz'
+				},
+				{
+					id: 'barToQux',
+					search: 'bar',
+					replace: 'qux'
+				}
+			]);
+
+			assert.deepStrictEqual(edits, [
+				{ start: 0, end: 3, text: 'baz', labels: ['fooToBaz'] },
+				{ start: 4, end: 7, text: 'qux', labels: ['barToQux'] }
+			]);
+		});
+
+		test('Chained replacements are merged into a single edit', () => {
+			const edits = computeReplacementEdits("x = 'a'", [
+				{
+					id: 'quotes',
+					search: "'",
+					replace: '"'
+				},
+				{
+					id: 'strings',
+					search: '"a"',
+					replace: '"b"'
+				}
+			]);
+
+			assert.deepStrictEqual(edits, [
+				{ start: 4, end: 7, text: '"b"', labels: ['quotes', 'strings'] }
+			]);
+		});
+	});
+
+	suite('Match options', () => {
+		test('Flags enable case-insensitive matching', async () => {
+			await configureReplacements([{
+				search: 'todo',
+				replace: 'FIXME',
+				flags: 'i'
+			}]);
+
+			const doc = await runCommandOnFile(
+				'options-flags-case.testfile.txt',
+				'TODO todo ToDo',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'FIXME FIXME FIXME');
+		});
+
+		test('Multiline flag anchors to each line', async () => {
+			await configureReplacements([{
+				search: '^\\s+$',
+				replace: '',
+				flags: 'm'
+			}]);
+
+			const doc = await runCommandOnFile(
+				'options-flags-multiline.testfile.txt',
+				'a\n   \nb',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'a\n\nb');
+		});
+
+		test('Literal search escapes special characters', async () => {
+			await configureReplacements([{
+				search: 'a.b(c)',
+				replace: 'x',
+				literal: true
+			}]);
+
+			const doc = await runCommandOnFile(
+				'options-literal.testfile.txt',
+				'a.b(c) aXb(c)',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'x aXb(c)');
+		});
+
+		test('maxReplacements caps the number of matches replaced', async () => {
+			await configureReplacements([{
+				search: 'foo',
+				replace: 'bar',
+				maxReplacements: 2
+			}]);
+
+			const doc = await runCommandOnFile(
+				'options-max-replacements.testfile.txt',
+				'foo foo foo',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'bar bar foo');
+		});
+
+		test('maxReplacements that is not a positive integer is reported', () => {
+			for (const maxReplacements of [0, -1, 1.5]) {
+				const { valid, problems } = validateReplacements([{ search: 'foo', replace: 'bar', maxReplacements }], new Set());
+				assert.strictEqual(valid.length, 0);
+				assert.strictEqual(problems[0].property, 'maxReplacements');
+			}
+		});
+	});
+
+	suite('Replacement template functionality', () => {
+		test('Case modifiers and transforms are applied to capture groups', async () => {
+			await configureReplacements([{
+				search: 'const (\\w+) = (\\w+)',
+				replace: 'const \\U$1 = ${2:/snakecase}'
+			}]);
+
+			const doc = await runCommandOnFile(
+				'templates-case.testfile.ts',
+				'const maxSize = defaultMaxSize',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'const MAXSIZE = default_max_size');
+		});
+
+		test('Variables are expanded', async () => {
+			await configureReplacements([{
+				search: '^// File: .*$',
+				replace: '// File: ${fileBasename} (line ${lineNumber})',
+				flags: 'm'
+			}]);
+
+			const doc = await runCommandOnFile(
+				'templates-variables.testfile.ts',
+				'\n// File: old-name.ts',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, '\n// File: templates-variables.testfile.ts (line 2)');
+		});
+	});
+
+	suite('Condition functionality', () => {
+		test('ifMatches and unlessMatches guard replacements', async () => {
+			await configureReplacements([{
+				search: 'print\\(',
+				replace: 'logger.info(',
+				ifMatches: '^import logger',
+				unlessMatches: 'NO_LOGGER',
+				flags: 'm'
+			}]);
+
+			const withLogger = await runCommandOnFile(
+				'conditions-with-logger.testfile.py',
+				'import logger\nprint("a")',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(withLogger, 'import logger\nlogger.info("a")');
+
+			const withoutLogger = await runCommandOnFile(
+				'conditions-without-logger.testfile.py',
+				'print("a")',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(withoutLogger, 'print("a")');
+
+			const optedOut = await runCommandOnFile(
+				'conditions-opted-out.testfile.py',
+				'import logger  # NO_LOGGER\nprint("a")',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(optedOut, 'import logger  # NO_LOGGER\nprint("a")');
+		});
+
+		test('Inline directives disable replacements', async () => {
+			await configureReplacements([
+				{
+					id: 'fooToBar',
+					search: 'foo',
+					replace: 'bar'
+				},
+				{
+					id: 'bazToQux',
+					search: 'baz',
+					replace: 'qux'
+				}
+			]);
+
+			const doc = await runCommandOnFile(
+				'conditions-directives.testfile.ts',
+				[
+					'// better-replace-on-save: disable-next-line',
+					'foo baz',
+					'foo baz // better-replace-on-save: disable-line fooToBar',
+					'foo baz'
+				].join('\n'),
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, [
+				'// better-replace-on-save: disable-next-line',
+				'foo baz',
+				'foo qux // better-replace-on-save: disable-line fooToBar',
+				'bar qux'
+			].join('\n'));
+		});
+	});
+
+	suite('Scope functionality', () => {
+		test('Comment scope only replaces inside comments', async () => {
+			await configureReplacements([{
+				search: 'TODO:',
+				replace: 'FIXME:',
+				scope: 'comment'
+			}]);
+
+			const doc = await runCommandOnFile(
+				'scope-comment.testfile.ts',
+				'const s = "TODO: keep"; // TODO: fix',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'const s = "TODO: keep"; // FIXME: fix');
+		});
+
+		test('Code scope does not replace inside strings or comments', async () => {
+			await configureReplacements([{
+				search: '\\blet\\b',
+				replace: 'const',
+				scope: ['code']
+			}]);
+
+			const doc = await runCommandOnFile(
+				'scope-code.testfile.py',
+				'let = "let"  # let\nlet',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'const = "let"  # let\nconst');
+		});
+
+		test('Hash inside a shell word is not a comment', async () => {
+			await configureReplacements([{
+				search: 'TODO',
+				replace: 'FIXME',
+				scope: 'comment'
+			}]);
+
+			const doc = await runCommandOnFile(
+				'scope-hash.testfile.sh',
+				'echo ${#TODO[@]} # TODO',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'echo ${#TODO[@]} # FIXME');
+		});
+
+		test('YAML comments follow values containing hashes and apostrophes', async () => {
+			await configureReplacements([{
+				search: 'TODO',
+				replace: 'FIXME',
+				scope: 'comment'
+			}]);
+
+			const doc = await runCommandOnFile(
+				'scope-yaml.testfile.yaml',
+				"url: http://a/#TODO\nname: it's\n# TODO",
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, "url: http://a/#TODO\nname: it's\n# FIXME");
+		});
+	});
+
 	suite('Language-specific functionality', () => {
 		test('Language-specific replacement works', async () => {
 			await configureReplacements([{
@@ -165,6 +530,80 @@ suite('Extension Test Suite', () => {
 		});
 	});
 
+	suite('File filter functionality', () => {
+		test('Include globs restrict replacements to matching paths', async () => {
+			await configureReplacements([{
+				search: 'foo',
+				replace: 'bar',
+				include: ['globs-tests/**/*.ts']
+			}]);
+
+			const testDoc = await runCommandOnFile(
+				'globs-tests/nested/include.testfile.ts',
+				'foo',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(testDoc, 'bar');
+
+			const srcDoc = await runCommandOnFile(
+				'globs-src/include.testfile.ts',
+				'foo',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(srcDoc, 'foo',
+				'No replacement should occur for files outside the include globs');
+		});
+
+		test('Exclude globs skip matching paths', async () => {
+			await configureReplacements([{
+				search: 'foo',
+				replace: 'bar',
+				exclude: ['*.d.ts']
+			}]);
+
+			const doc = await runCommandOnFile(
+				'globs-exclude/exclude.testfile.d.ts',
+				'foo',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(doc, 'foo');
+		});
+
+		test('File filters are respected by code actions on save', async () => {
+			await configureReplacements([{
+				id: 'testsOnly',
+				search: 'foo',
+				replace: 'bar',
+				include: ['globs-tests/**']
+			}]);
+
+			await enableCodeActionsOnSave({
+				'source.applyReplacements.testsOnly': true
+			});
+
+			const doc = await saveFile('globs-src/on-save.testfile.txt', 'foo');
+			await assertReplacement(doc, 'foo');
+		});
+
+		test('Malformed globs match literally or are reported instead of breaking replacements', async () => {
+			assert.ok(matchesGlob('globs-src/{a,b', 'globs-src/{a,b'));
+			assert.ok(!matchesGlob('globs-src/a', 'globs-src/{a,b'));
+
+			const { valid, problems } = validateReplacements([
+				{ search: 'foo', replace: 'bar', include: ['globs-src/[z-a]'] }
+			], new Set());
+			assert.strictEqual(valid.length, 0);
+			assert.strictEqual(problems[0].message, 'Invalid glob "globs-src/[z-a]"');
+
+			await configureReplacements([
+				{ search: 'foo', replace: 'bar', include: ['globs-src/{a,b'] },
+				{ search: 'hello', replace: 'world' }
+			]);
+			const doc = await runCommandOnFile('globs-src/malformed.testfile.txt', 'foo hello', 'better-replace-on-save.applyReplacements');
+			await assertReplacement(doc, 'foo world');
+		});
+	});
+
 	suite('Code Actions functionality', () => {
 		test('Replacement takes effect on save when appropriately configured', async () => {
 			await configureReplacements([{
@@ -194,38 +633,174 @@ suite('Extension Test Suite', () => {
 			const doc = await saveFile('codeactions-save-action.testfile.txt', 'This is a test file');
 			await assertReplacement(doc, 'This is a verified file');
 		});
-	});
 
-	suite('ID-based replacements', () => {
-		test('Specific replacement command works when called directly', async () => {
-			await configureReplacements([
-				{
-					id: 'replacement1',
-					search: 'foo',
-					replace: 'bar'
-				},
-				{
-					id: 'replacement2',
-					search: 'hello',
-					replace: 'world'
-				}
-			]);
+		test('Each change is a separate edit, leaving the lines between them untouched', async () => {
+			await configureReplacements([{ search: 'foo', replace: 'bar' }]);
 
-			const doc = await runCommandOnFile(
-				'id-specific-replacement.testfile.txt',
-				'This is foo and hello text',
-				'better-replace-on-save.applySpecificReplacement',
-				'replacement1'
-			);
+			const doc = await createTestFile('codeactions-separate-edits.testfile.txt', 'foo\nunchanged\nfoo');
+			const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+				'vscode.executeCodeActionProvider', doc.uri, new vscode.Range(0, 0, 0, 0), 'source.applyReplacements');
+			const action = actions.find(action => action.kind?.value === 'source.applyReplacements');
+			assert.ok(action?.edit, 'Expected a source.applyReplacements action');
 
-			await assertReplacement(doc, 'This is bar and hello text');
+			const edits = action.edit.get(doc.uri);
+			assert.deepStrictEqual(edits.map(edit => [edit.range.start.line, edit.range.end.line, edit.newText]), [[0, 0, 'bar'], [2, 2, 'bar']]);
 		});
 
-		test('Replacements with IDs should NOT respect language when run as a command', async () => {
-			await configureReplacements([{
-				id: 'pythonReplace',
-				search: 'print\\(',
-				replace: 'logger.info(',
+		test('Saving reports the number of replacements made by each rule', async () => {
+			await configureReplacements([
+				{ id: 'fooToBar', search: 'foo', replace: 'bar' },
+				{ id: 'unused', search: 'missing', replace: 'found' }
+			]);
+
+			await enableCodeActionsOnSave({
+				'source.applyReplacements': true
+			});
+
+			const doc = await saveFile('codeactions-run-report.testfile.txt', 'foo foo');
+			await assertReplacement(doc, 'bar bar');
+
+			const report = getLastRunReport();
+			assert.ok(report, 'Expected a run report');
+			assert.strictEqual(report.uri.toString(), doc.uri.toString());
+			assert.strictEqual(report.trigger, 'save');
+			assert.deepStrictEqual([...report.counts], [['fooToBar', 2]]);
+		});
+
+		test('Replacements with IDs are applied once when all replacements run on save', async () => {
+			await configureReplacements([{
+				id: 'debugLogging',
+				search: 'console\\.log',
+				replace: 'logger.debug'
+			}]);
+
+			await enableCodeActionsOnSave({
+				'source.applyReplacements': true
+			});
+
+			const doc = await saveFile('codeactions-save-all-with-ids.testfile.ts', 'console.log(a);\nconsole.log(b);');
+			await assertReplacement(doc, 'logger.debug(a);\nlogger.debug(b);');
+		});
+	});
+
+	suite('Group functionality', () => {
+		test('A group is applied on save by its code action kind', async () => {
+			await configureReplacements([
+				{
+					search: 'foo',
+					replace: 'bar',
+					group: 'cleanup'
+				},
+				{
+					search: 'hello',
+					replace: 'world'
+				}
+			]);
+
+			await enableCodeActionsOnSave({
+				'source.applyReplacements.group.cleanup': true
+			});
+
+			const doc = await saveFile('groups-on-save.testfile.txt', 'foo hello');
+			await assertReplacement(doc, 'bar hello');
+		});
+
+		test('Replacements in disabled groups are not applied', async () => {
+			await configureReplacements([
+				{
+					search: 'foo',
+					replace: 'bar',
+					group: 'cleanup'
+				},
+				{
+					search: 'hello',
+					replace: 'world',
+					group: 'greetings'
+				}
+			]);
+			await vscode.commands.executeCommand('better-replace-on-save.disableReplacementGroup', 'cleanup');
+
+			const doc = await runCommandOnFile(
+				'groups-disabled.testfile.txt',
+				'foo hello',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(doc, 'foo world');
+
+			await vscode.commands.executeCommand('better-replace-on-save.enableReplacementGroup', 'cleanup');
+			await vscode.commands.executeCommand('better-replace-on-save.applyReplacements');
+			await assertReplacement(doc, 'bar world');
+		});
+	});
+
+	suite('Background document functionality', () => {
+		test('Save All applies replacements to documents that are not the active editor', async () => {
+			await configureReplacements([{
+				search: 'saveAllText',
+				replace: 'replacedText'
+			}]);
+
+			await enableCodeActionsOnSave({
+				'source.applyReplacements': true
+			});
+
+			const backgroundDoc = await createTestFile('background-save-all-1.testfile.txt', 'saveAllText');
+			await makeDirty(backgroundDoc);
+			const activeDoc = await createTestFile('background-save-all-2.testfile.txt', 'saveAllText');
+			await makeDirty(activeDoc);
+
+			await vscode.commands.executeCommand('workbench.action.files.saveAll');
+
+			await assertReplacement(backgroundDoc, 'replacedText ');
+			await assertReplacement(activeDoc, 'replacedText ');
+		});
+
+		test('Commands apply replacements to the document given by URI', async () => {
+			await configureReplacements([{
+				search: 'foo',
+				replace: 'bar'
+			}]);
+
+			const targetDoc = await createTestFile('background-uri-target.testfile.txt', 'foo');
+			const activeDoc = await createTestFile('background-uri-active.testfile.txt', 'foo');
+
+			await vscode.commands.executeCommand('better-replace-on-save.applyReplacements', targetDoc.uri);
+
+			await assertReplacement(targetDoc, 'bar');
+			await assertReplacement(activeDoc, 'foo', 'The active editor should not be changed');
+		});
+	});
+
+	suite('ID-based replacements', () => {
+		test('Specific replacement command works when called directly', async () => {
+			await configureReplacements([
+				{
+					id: 'replacement1',
+					search: 'foo',
+					replace: 'bar'
+				},
+				{
+					id: 'replacement2',
+					search: 'hello',
+					replace: 'world'
+				}
+			]);
+
+			const doc = await runCommandOnFile(
+				'id-specific-replacement.testfile.txt',
+				'This is foo and hello text',
+				'better-replace-on-save.applySpecificReplacement',
+				'replacement1'
+			);
+
+			await assertReplacement(doc, 'This is bar and hello text');
+		});
+
+		test('Replacements with IDs should NOT respect language when run as a command', async () => {
+			await configureReplacements([{
+				id: 'pythonReplace',
+				search: 'print\\(',
+				replace: 'logger.info(',
 				languages: ['python']
 			}]);
 
@@ -451,6 +1026,241 @@ suite('Extension Test Suite', () => {
 		});
 	});
 
+	suite('Workspace functionality', () => {
+		test('Replacements are applied to all matching files in the workspace', async () => {
+			await configureReplacements([{
+				id: 'workspaceReplace',
+				search: 'workspaceFoo',
+				replace: 'workspaceBar',
+				include: ['workspace-apply/**']
+			}]);
+
+			const matchingPath = path.join(workspaceFolder, 'workspace-apply', 'matching.testfile.txt');
+			const otherPath = path.join(workspaceFolder, 'workspace-other', 'other.testfile.txt');
+			await fs.mkdir(path.dirname(matchingPath), { recursive: true });
+			await fs.mkdir(path.dirname(otherPath), { recursive: true });
+			await fs.writeFile(matchingPath, 'workspaceFoo', 'utf-8');
+			await fs.writeFile(otherPath, 'workspaceFoo', 'utf-8');
+
+			await vscode.commands.executeCommand('better-replace-on-save.applyReplacementsToWorkspace', 'workspaceReplace');
+
+			const matchingDoc = await vscode.workspace.openTextDocument(matchingPath);
+			const otherDoc = await vscode.workspace.openTextDocument(otherPath);
+			await matchingDoc.save();
+
+			await assertReplacement(matchingDoc, 'workspaceBar');
+			await assertReplacement(otherDoc, 'workspaceFoo',
+				'No replacement should occur for files outside the include globs');
+		});
+	});
+
+	suite('Selection functionality', () => {
+		test('Only matches within the selection are replaced', async () => {
+			await configureReplacements([{
+				search: 'foo',
+				replace: 'bar'
+			}]);
+
+			const doc = await createTestFile('selection-replace.testfile.txt', 'foo\nfoo foo\nfoo');
+			const editor = vscode.window.activeTextEditor!;
+			editor.selection = new vscode.Selection(1, 0, 1, 7);
+			await vscode.commands.executeCommand('better-replace-on-save.applyReplacementsToSelection');
+
+			await assertReplacement(doc, 'foo\nbar bar\nfoo');
+		});
+
+		test('Matches crossing the selection boundary are not replaced', async () => {
+			await configureReplacements([{
+				search: 'foo bar',
+				replace: 'baz'
+			}]);
+
+			const doc = await createTestFile('selection-boundary.testfile.txt', 'foo bar foo bar');
+			const editor = vscode.window.activeTextEditor!;
+			editor.selection = new vscode.Selection(0, 4, 0, 15);
+			await vscode.commands.executeCommand('better-replace-on-save.applyReplacementsToSelection');
+
+			await assertReplacement(doc, 'foo bar baz');
+		});
+
+		test('Ranges follow earlier replacements in the pipeline', () => {
+			const edits = computeReplacementEdits('foo foo foo', [
+				{ search: 'foo', replace: 'longer', order: 1 },
+				{ search: 'longer', replace: 'x', order: 2 }
+			], { ranges: [{ start: 4, end: 7 }] });
+
+			assert.deepStrictEqual(edits.map(edit => [edit.start, edit.end, edit.text]), [[4, 7, 'x']]);
+		});
+	});
+
+	suite('Lint functionality', () => {
+		async function waitForDiagnostics(uri: vscode.Uri, count: number): Promise<vscode.Diagnostic[]> {
+			for (let i = 0; i < 50; i++) {
+				const diagnostics = vscode.languages.getDiagnostics(uri)
+					.filter(diagnostic => diagnostic.source === 'Better Replace-on-Save');
+				if (diagnostics.length === count) {
+					return diagnostics;
+				}
+				await new Promise(resolve => setTimeout(resolve, 100));
+			}
+			assert.fail(`Expected ${count} diagnostic(s) for ${uri.fsPath}`);
+		}
+
+		test('Matches are reported as diagnostics', async () => {
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update('lint', true, vscode.ConfigurationTarget.Global);
+			await configureReplacements([{
+				id: 'noVar',
+				search: 'var',
+				replace: 'let',
+				description: 'Use let instead of var',
+				severity: 'warning'
+			}]);
+
+			const doc = await createTestFile('lint-diagnostics.testfile.txt', 'var a;\nvar b;');
+			const diagnostics = await waitForDiagnostics(doc.uri, 2);
+
+			assert.strictEqual(diagnostics[0].message, 'Use let instead of var');
+			assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Warning);
+			assert.strictEqual(diagnostics[0].code, 'noVar');
+			assert.ok(diagnostics[1].range.isEqual(new vscode.Range(1, 0, 1, 3)));
+		});
+
+		test('Quick fixes apply one or all occurrences', async () => {
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update('lint', true, vscode.ConfigurationTarget.Global);
+			await configureReplacements([{
+				search: 'var',
+				replace: 'let'
+			}]);
+
+			const doc = await createTestFile('lint-quick-fix.testfile.txt', 'var a;\nvar b;\nvar c;');
+			const diagnostics = await waitForDiagnostics(doc.uri, 3);
+
+			const getQuickFix = async (range: vscode.Range, title: string) => {
+				const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+					'vscode.executeCodeActionProvider', doc.uri, range, vscode.CodeActionKind.QuickFix.value);
+				const action = actions.find(action => action.title.startsWith(title));
+				assert.ok(action?.edit, `Expected a "${title}" quick fix`);
+				return action.edit;
+			};
+
+			await vscode.workspace.applyEdit(await getQuickFix(diagnostics[0].range, 'Replace with "let"'));
+			await assertReplacement(doc, 'let a;\nvar b;\nvar c;');
+
+			const remaining = await waitForDiagnostics(doc.uri, 2);
+			await vscode.workspace.applyEdit(await getQuickFix(remaining[0].range, 'Apply replacement'));
+			await assertReplacement(doc, 'let a;\nlet b;\nlet c;');
+		});
+	});
+
+	suite('Rule test functionality', () => {
+		test('Rule tests report passing and failing examples', async () => {
+			await configureReplacements([
+				{
+					id: 'noVar',
+					search: '\\bvar\\b',
+					replace: 'let',
+					tests: [
+						{ input: 'var x;', output: 'let x;' },
+						{ input: 'variable', output: 'variable' }
+					]
+				},
+				{
+					id: 'wrongTest',
+					search: 'foo',
+					replace: 'bar',
+					tests: [{ input: 'foo', output: 'baz' }]
+				}
+			]);
+
+			const result = await vscode.commands.executeCommand<{ passed: number; total: number }>('better-replace-on-save.runRuleTests');
+
+			assert.deepStrictEqual(result, { passed: 2, total: 3 });
+		});
+	});
+
+	suite('Workspace folder functionality', () => {
+		test('Folder-scoped settings apply to documents in that folder', async () => {
+			const folder = vscode.workspace.workspaceFolders![0];
+			const folderConfig = vscode.workspace.getConfiguration('betterReplaceOnSave', folder.uri);
+			await configureReplacements([{
+				search: 'foo',
+				replace: 'global'
+			}]);
+			await folderConfig.update('replacements', [{
+				search: 'foo',
+				replace: 'folder'
+			}], vscode.ConfigurationTarget.WorkspaceFolder);
+
+			try {
+				const doc = await runCommandOnFile(
+					'folders-scoped-settings.testfile.txt',
+					'foo',
+					'better-replace-on-save.applyReplacements'
+				);
+
+				await assertReplacement(doc, 'folder');
+			} finally {
+				await folderConfig.update('replacements', undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+			}
+		});
+	});
+
+	suite('Validation functionality', () => {
+		test('Invalid regex is skipped and reported without breaking other replacements', async () => {
+			const filePath = await createReplacementFile('validation-invalid-regex.json', [
+				{
+					search: '(unclosed',
+					replace: 'broken'
+				},
+				{
+					search: 'valid',
+					replace: 'applied'
+				}
+			]);
+			await configureReplacementFiles(['validation-invalid-regex.json']);
+
+			const doc = await runCommandOnFile(
+				'validation-invalid-regex.testfile.txt',
+				'This is valid (unclosed',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(doc, 'This is applied (unclosed');
+
+			const diagnostics = vscode.languages.getDiagnostics(vscode.Uri.file(filePath));
+			assert.strictEqual(diagnostics.length, 1);
+			assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Error);
+			assert.strictEqual(diagnostics[0].range.start.line, 2, 'Diagnostic should be on the "search" line');
+		});
+
+		test('Duplicate IDs and empty-match patterns are skipped', async () => {
+			await configureReplacements([
+				{
+					id: 'dup',
+					search: 'foo',
+					replace: 'bar'
+				},
+				{
+					id: 'dup',
+					search: 'bar',
+					replace: 'baz'
+				},
+				{
+					search: 'x*',
+					replace: 'y'
+				}
+			]);
+
+			const doc = await runCommandOnFile(
+				'validation-duplicates.testfile.txt',
+				'foo',
+				'better-replace-on-save.applyReplacements'
+			);
+			await assertReplacement(doc, 'bar');
+		});
+	});
+
 	suite('Replacements Files functionality', () => {
 		test('Load replacements from external file', async () => {
 			// Create a replacement file
@@ -572,5 +1382,468 @@ suite('Extension Test Suite', () => {
 
 			await assertReplacement(doc, 'This is modified text');
 		});
+
+		test('Load replacements from JSONC and YAML files', async () => {
+			await fs.writeFile(path.join(workspaceFolder, 'replfiles-formats.jsonc'), [
+				'[',
+				'  // Comments and trailing commas are allowed',
+				'  { "search": "jsonc", "replace": "JSONC", },',
+				']'
+			].join('\n'), 'utf-8');
+			await fs.writeFile(path.join(workspaceFolder, 'replfiles-formats.yaml'), [
+				'# Backslashes don\'t need escaping',
+				'- search: \\byaml\\b',
+				'  replace: YAML'
+			].join('\n'), 'utf-8');
+			await configureReplacementFiles(['replfiles-formats.jsonc', 'replfiles-formats.yaml']);
+
+			const doc = await runCommandOnFile(
+				'replfiles-formats.testfile.txt',
+				'jsonc yaml yamls',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'JSONC YAML yamls');
+		});
+
+		test('Parse errors are reported at their line', async () => {
+			const filePath = path.join(workspaceFolder, 'replfiles-parse-error.yaml');
+			await fs.writeFile(filePath, '- search: a\n  replace: b\n- search: [c\n', 'utf-8');
+			await configureReplacementFiles(['replfiles-parse-error.yaml']);
+			await new Promise(resolve => setTimeout(resolve, 500));
+
+			const diagnostics = vscode.languages.getDiagnostics(vscode.Uri.file(filePath));
+			assert.strictEqual(diagnostics.length, 1);
+			assert.ok(diagnostics[0].message.startsWith('Invalid YAML'));
+			assert.strictEqual(diagnostics[0].range.start.line, 3);
+		});
+
+		test('Problems with repeated properties are reported at the one that is used', async () => {
+			const filePath = path.join(workspaceFolder, 'replfiles-duplicate-key.jsonc');
+			await fs.writeFile(filePath, [
+				'[',
+				'  {',
+				'    "search": "a",',
+				'    "replace": "b",',
+				'    "maxReplacements": 1,',
+				'    "maxReplacements": 0',
+				'  }',
+				']'
+			].join('\n'), 'utf-8');
+			await configureReplacementFiles(['replfiles-duplicate-key.jsonc']);
+			await new Promise(resolve => setTimeout(resolve, 500));
+
+			const diagnostics = vscode.languages.getDiagnostics(vscode.Uri.file(filePath));
+			assert.strictEqual(diagnostics.length, 1);
+			assert.strictEqual(diagnostics[0].range.start.line, 5);
+		});
+
+		test('Replacement files can be given as URIs and workspace folder variables', async () => {
+			await createReplacementFile('replfiles-uri-folder.json', [{ search: 'folder', replace: 'FOLDER' }]);
+			const uriFilePath = await createReplacementFile('replfiles-uri-file.json', [{ search: 'uri', replace: 'URI' }]);
+			await configureReplacementFiles([
+				`\${workspaceFolder:${path.basename(workspaceFolder)}}/replfiles-uri-folder.json`,
+				vscode.Uri.file(uriFilePath).toString()
+			]);
+
+			const doc = await runCommandOnFile(
+				'replfiles-uri.testfile.txt',
+				'folder uri',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'FOLDER URI');
+		});
+
+		test('Reload command picks up changes to files outside the workspace', async () => {
+			const filePath = path.join(os.tmpdir(), 'better-replace-on-save-reload-test.json');
+			await fs.writeFile(filePath, JSON.stringify([{ search: 'outside', replace: 'first' }]), 'utf-8');
+			await configureReplacementFiles([filePath]);
+
+			try {
+				await fs.writeFile(filePath, JSON.stringify([{ search: 'outside', replace: 'second' }]), 'utf-8');
+				await vscode.commands.executeCommand('better-replace-on-save.reloadReplacements');
+
+				const doc = await runCommandOnFile(
+					'replfiles-reload-outside.testfile.txt',
+					'outside',
+					'better-replace-on-save.applyReplacements'
+				);
+
+				await assertReplacement(doc, 'second');
+			} finally {
+				await fs.rm(filePath, { force: true });
+			}
+		});
+
+		test('Extended replacements can be overridden and disabled by ID', async () => {
+			await createReplacementFile(path.join('replfiles-extends', 'base.json'), [
+				{ id: 'baseFoo', search: 'foo', replace: 'bar' },
+				{ id: 'baseHello', search: 'hello', replace: 'world' }
+			]);
+			await fs.writeFile(path.join(workspaceFolder, 'replfiles-extends', 'main.json'), JSON.stringify({
+				extends: './base.json',
+				replacements: [{ search: 'own', replace: 'mine' }],
+				overrides: {
+					baseFoo: { replace: 'baz' },
+					baseHello: false
+				}
+			}), 'utf-8');
+			await configureReplacementFiles([path.join('replfiles-extends', 'main.json')]);
+
+			const doc = await runCommandOnFile(
+				'replfiles-extends.testfile.txt',
+				'foo hello own',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'baz hello mine');
+		});
+
+		test('Files extended through several others are only loaded once', async () => {
+			const basePath = await createReplacementFile(path.join('replfiles-diamond', 'd.json'), [
+				{ id: 'baseFoo', search: 'foo', replace: 'bar' },
+				{ search: 'hello', replace: 'hello!' }
+			]);
+			await fs.writeFile(path.join(workspaceFolder, 'replfiles-diamond', 'a.json'), JSON.stringify({ extends: ['b.json', 'c.json'] }), 'utf-8');
+			await fs.writeFile(path.join(workspaceFolder, 'replfiles-diamond', 'b.json'), JSON.stringify({ extends: 'd.json' }), 'utf-8');
+			await fs.writeFile(path.join(workspaceFolder, 'replfiles-diamond', 'c.json'), JSON.stringify({ extends: 'd.json' }), 'utf-8');
+			await configureReplacementFiles([path.join('replfiles-diamond', 'a.json')]);
+
+			const doc = await runCommandOnFile(
+				'replfiles-diamond.testfile.txt',
+				'foo hello',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'bar hello!');
+			assert.deepStrictEqual(vscode.languages.getDiagnostics(vscode.Uri.file(basePath)), []);
+		});
+
+		test('Circular includes are skipped', async () => {
+			await fs.mkdir(path.join(workspaceFolder, 'replfiles-circular'), { recursive: true });
+			await fs.writeFile(path.join(workspaceFolder, 'replfiles-circular', 'a.json'), JSON.stringify({
+				include: 'b.json',
+				replacements: [{ search: 'a', replace: 'A' }]
+			}), 'utf-8');
+			await fs.writeFile(path.join(workspaceFolder, 'replfiles-circular', 'b.json'), JSON.stringify({
+				include: 'a.json',
+				replacements: [{ search: 'b', replace: 'B' }]
+			}), 'utf-8');
+			await configureReplacementFiles([path.join('replfiles-circular', 'a.json')]);
+
+			const doc = await runCommandOnFile(
+				'replfiles-circular.testfile.txt',
+				'a b',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'A B');
+		});
+	});
+
+	suite('CLI functionality', () => {
+		const cliPath = path.resolve(__dirname, '..', 'cli.js');
+
+		// Create a workspace outside the test workspace, so the CLI doesn't pick up other tests' files
+		async function createCliWorkspace(settings: object, files: Record<string, string>): Promise<string> {
+			const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'better-replace-on-save-cli-'));
+			await fs.mkdir(path.join(tempDir, '.vscode'));
+			await fs.writeFile(path.join(tempDir, '.vscode', 'settings.json'), JSON.stringify(settings), 'utf-8');
+			for (const [name, content] of Object.entries(files)) {
+				await fs.mkdir(path.dirname(path.join(tempDir, name)), { recursive: true });
+				await fs.writeFile(path.join(tempDir, name), content, 'utf-8');
+			}
+			return tempDir;
+		}
+
+		test('--check lists replacements and exits with code 1 without changing files', async () => {
+			const tempDir = await createCliWorkspace({
+				'betterReplaceOnSave.replacements': [{ id: 'fooToBar', search: 'foo', replace: 'bar' }]
+			}, { 'src/a.txt': 'one\nfoo two' });
+
+			try {
+				await assert.rejects(promisify(execFile)(process.execPath, [cliPath, '--check', '--workspace', tempDir], { cwd: tempDir }), (error: { code: number; stdout: string }) => {
+					assert.strictEqual(error.code, 1);
+					assert.ok(error.stdout.includes(`${path.join('src', 'a.txt')}:2:1: Replace "foo" with "bar" (fooToBar)`), error.stdout);
+					return true;
+				});
+				assert.strictEqual(await fs.readFile(path.join(tempDir, 'src', 'a.txt'), 'utf-8'), 'one\nfoo two');
+			} finally {
+				await fs.rm(tempDir, { recursive: true, force: true });
+			}
+		});
+
+		test('Replacements from settings and files are applied, respecting language filters', async () => {
+			const tempDir = await createCliWorkspace({
+				'betterReplaceOnSave.replacements': [{ search: 'var', replace: 'let', languages: ['typescript'] }],
+				'betterReplaceOnSave.replacementsFiles': ['${workspaceFolder}/rules.yaml']
+			}, {
+				'rules.yaml': 'replacements:\n  - search: foo\n    replace: bar\n',
+				'a.ts': 'var foo',
+				'b.js': 'var foo'
+			});
+
+			try {
+				await promisify(execFile)(process.execPath, [cliPath, '--workspace', tempDir], { cwd: tempDir });
+				assert.strictEqual(await fs.readFile(path.join(tempDir, 'a.ts'), 'utf-8'), 'let bar');
+				assert.strictEqual(await fs.readFile(path.join(tempDir, 'b.js'), 'utf-8'), 'var bar');
+				// Replacements files aren't changed by their own replacements
+				assert.ok((await fs.readFile(path.join(tempDir, 'rules.yaml'), 'utf-8')).includes('search: foo'));
+			} finally {
+				await fs.rm(tempDir, { recursive: true, force: true });
+			}
+		});
+	});
+
+	suite('Structural replacement functionality', () => {
+		test('Metavariables match nested and multi-line code', async () => {
+			await configureReplacements([{
+				search: 'console.log($$ARGS)',
+				replace: 'logger.info($$ARGS)',
+				structural: true
+			}]);
+
+			const doc = await runCommandOnFile(
+				'structural-metavariables.testfile.ts',
+				'console.log(a, f(b, (c)));\nconsole.log(\n  "x",\n  y\n);\nconsole.warn(z);',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'logger.info(a, f(b, (c)));\nlogger.info(\n  "x",\n  y\n);\nconsole.warn(z);');
+		});
+
+		test('Code in strings and comments is not matched', async () => {
+			await configureReplacements([{
+				search: "import $NAME from 'old-module'",
+				replace: "import $NAME from 'new-module'",
+				structural: true
+			}]);
+
+			const doc = await runCommandOnFile(
+				'structural-imports.testfile.js',
+				"import a from 'old-module';\n// import b from 'old-module'\nconst c = \"import d from 'old-module'\";",
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, "import a from 'new-module';\n// import b from 'old-module'\nconst c = \"import d from 'old-module'\";");
+		});
+
+		test('Repeated metavariables must match the same code', async () => {
+			await configureReplacements([{
+				search: '$X === $X',
+				replace: 'true',
+				structural: true
+			}]);
+
+			const doc = await runCommandOnFile(
+				'structural-repeated.testfile.ts',
+				'a === a; a === b;',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'true; a === b;');
+		});
+	});
+
+	suite('Time limit and skipped file functionality', () => {
+		test('A regex that runs out of time is aborted while other replacements still apply', async () => {
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update('regexTimeout', 100, vscode.ConfigurationTarget.Global);
+			await configureReplacements([
+				{ id: 'backtracking', search: '(a+)+$', replace: 'x' },
+				{ id: 'simple', search: 'foo', replace: 'bar' }
+			]);
+
+			const doc = await runCommandOnFile(
+				'timeout.testfile',
+				'foo ' + 'a'.repeat(40) + 'b',
+				'better-replace-on-save.applyReplacements'
+			);
+
+			await assertReplacement(doc, 'bar ' + 'a'.repeat(40) + 'b');
+		});
+
+		test('Files matching skipFiles or larger than maxFileSize are skipped', async () => {
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update('skipFiles', ['**/*.min.testfile'], vscode.ConfigurationTarget.Global);
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update('maxFileSize', 1, vscode.ConfigurationTarget.Global);
+			await configureReplacements([{ search: 'foo', replace: 'bar' }]);
+
+			const skipped = await runCommandOnFile('skipped.min.testfile', 'foo', 'better-replace-on-save.applyReplacements');
+			assert.strictEqual(skipped.getText(), 'foo');
+
+			const large = await runCommandOnFile('large.testfile', 'foo' + ' '.repeat(2000), 'better-replace-on-save.applyReplacements');
+			assert.strictEqual(large.getText(), 'foo' + ' '.repeat(2000));
+
+			const small = await runCommandOnFile('small.testfile', 'foo', 'better-replace-on-save.applyReplacements');
+			await assertReplacement(small, 'bar');
+		});
+
+		test('Replacements with IDs and groups are skipped on save for skipped files', async () => {
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update('skipFiles', ['**/*.bundle.testfile'], vscode.ConfigurationTarget.Global);
+			await configureReplacements([
+				{ id: 'byId', search: 'foo', replace: 'bar' },
+				{ search: 'hello', replace: 'world', group: 'cleanup' }
+			]);
+			await enableCodeActionsOnSave({
+				'source.applyReplacements.byId': true,
+				'source.applyReplacements.group.cleanup': true
+			});
+
+			const doc = await saveFile('skipped.bundle.testfile', 'foo hello');
+			await assertReplacement(doc, 'foo hello');
+		});
+
+		test('Rule tests whose regex runs out of time error', async () => {
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update('regexTimeout', 100, vscode.ConfigurationTarget.Global);
+			await configureReplacements([{
+				id: 'backtracking',
+				search: '(a+)+$',
+				replace: 'x',
+				tests: [{ input: 'a'.repeat(40) + 'b', output: 'a'.repeat(40) + 'b' }]
+			}]);
+
+			const result = await vscode.commands.executeCommand<{ passed: number; total: number }>('better-replace-on-save.runRuleTests');
+
+			assert.deepStrictEqual(result, { passed: 0, total: 1 });
+		});
+	});
+
+	suite('Notebook functionality', () => {
+		async function createNotebook(): Promise<vscode.NotebookDocument> {
+			const notebook = await vscode.workspace.openNotebookDocument('jupyter-notebook', new vscode.NotebookData([
+				new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'print("hello")', 'python'),
+				new vscode.NotebookCellData(vscode.NotebookCellKind.Markup, '# hello', 'markdown'),
+				new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'console.log("hello")', 'javascript')
+			]));
+			await vscode.window.showNotebookDocument(notebook);
+			return notebook;
+		}
+
+		test('Replacements apply to every cell, filtered by cell language', async () => {
+			await configureReplacements([
+				{ search: 'print\\(', replace: 'logger.info(', languages: ['python'] },
+				{ search: 'hello', replace: 'world' }
+			]);
+
+			const notebook = await createNotebook();
+			await vscode.commands.executeCommand('better-replace-on-save.applyReplacements');
+
+			assert.deepStrictEqual(notebook.getCells().map(cell => cell.document.getText()),
+				['logger.info("world")', '# world', 'console.log("world")']);
+		});
+
+		test('The notebook code action kind edits all cells', async () => {
+			await configureReplacements([{ search: 'hello', replace: 'world', languages: ['python', 'markdown'] }]);
+
+			const notebook = await createNotebook();
+			const firstCell = notebook.cellAt(0).document;
+			const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+				'vscode.executeCodeActionProvider', firstCell.uri, new vscode.Range(0, 0, 0, 0), 'notebook.source.applyReplacements');
+			const action = actions.find(action => action.kind?.value === 'notebook.source.applyReplacements');
+			assert.ok(action?.edit, 'Expected a notebook.source.applyReplacements action');
+
+			await vscode.workspace.applyEdit(action.edit);
+			assert.deepStrictEqual(notebook.getCells().map(cell => cell.document.getText()),
+				['print("world")', '# world', 'console.log("hello")']);
+		});
+
+		test('Applying a single replacement to the workspace only applies it to notebooks', async () => {
+			await configureReplacements([
+				{ id: 'selected', search: 'foo', replace: 'bar', include: ['notebook-workspace/**'] },
+				{ id: 'other', search: 'hello', replace: 'world', include: ['notebook-workspace/**'] }
+			]);
+
+			const notebookPath = path.join(workspaceFolder, 'notebook-workspace', 'cells.ipynb');
+			await fs.mkdir(path.dirname(notebookPath), { recursive: true });
+			await fs.writeFile(notebookPath, JSON.stringify({
+				cells: [{ cell_type: 'code', source: ['foo hello'], metadata: {}, outputs: [], execution_count: null }],
+				metadata: { language_info: { name: 'python' } },
+				nbformat: 4,
+				nbformat_minor: 5
+			}), 'utf-8');
+
+			await vscode.commands.executeCommand('better-replace-on-save.applyReplacementsToWorkspace', 'selected');
+
+			const notebook = await vscode.workspace.openNotebookDocument(vscode.Uri.file(notebookPath));
+			assert.deepStrictEqual(notebook.getCells().map(cell => cell.document.getText()), ['bar hello']);
+		});
+	});
+
+	suite('Trigger functionality', () => {
+		async function waitForText(doc: vscode.TextDocument, expected: string): Promise<void> {
+			for (let i = 0; i < 50 && doc.getText() !== expected; i++) {
+				await new Promise(resolve => setTimeout(resolve, 100));
+			}
+			assert.strictEqual(doc.getText(), expected);
+		}
+
+		test('Replacements without the save trigger are left out of commands', async () => {
+			await configureReplacements([
+				{ search: 'foo', replace: 'bar' },
+				{ search: 'baz', replace: 'qux', triggers: ['paste'] }
+			]);
+
+			const doc = await runCommandOnFile('triggers-command.testfile', 'foo baz', 'better-replace-on-save.applyReplacements');
+
+			await assertReplacement(doc, 'bar baz');
+		});
+
+		test('Replacements with the type trigger run after typing stops', async () => {
+			await vscode.workspace.getConfiguration('betterReplaceOnSave')
+				.update('typeDebounce', 50, vscode.ConfigurationTarget.Global);
+			await configureReplacements([{ search: '->', replace: '→', triggers: ['type'] }]);
+
+			const doc = await createTestFile('triggers-type.testfile', 'a ');
+			const editor = vscode.window.activeTextEditor!;
+			await editor.edit(builder => builder.insert(new vscode.Position(0, 2), '-> b'));
+
+			await waitForText(doc, 'a → b');
+		});
+
+		test('Replacements with the paste trigger are applied to pasted text', async () => {
+			await configureReplacements([
+				{ search: '[“”]', replace: '"', triggers: ['paste'] },
+				{ search: 'pasted', replace: 'saved' }
+			]);
+
+			const doc = await createTestFile('triggers-paste.testfile', 'a ');
+			const dataTransfer = new vscode.DataTransfer();
+			dataTransfer.set('text/plain', new vscode.DataTransferItem('“pasted”'));
+			const position = new vscode.Position(0, 2);
+			const edits = await new ReplacementPasteEditProvider().provideDocumentPasteEdits(
+				doc,
+				[new vscode.Range(position, position)],
+				dataTransfer,
+				{ only: undefined, triggerKind: vscode.DocumentPasteTriggerKind.Automatic },
+				new vscode.CancellationTokenSource().token,
+			);
+
+			assert.strictEqual(edits?.length, 1);
+			assert.strictEqual(edits[0].insertText, '"pasted"');
+			assert.strictEqual(edits[0].kind, ReplacementPasteEditProvider.kind);
+		});
+
+		test('Replacements with the create trigger run on new files, including empty matches', async () => {
+			await configureReplacements([{ search: '^(?!// Header)', replace: '// Header\n', triggers: ['create'] }]);
+
+			const uri = vscode.Uri.file(path.join(workspaceFolder, 'triggers-create.testfile'));
+			await fs.rm(uri.fsPath, { force: true });
+			const edit = new vscode.WorkspaceEdit();
+			edit.createFile(uri, { contents: new TextEncoder().encode('content') });
+			await vscode.workspace.applyEdit(edit);
+
+			await waitForText(await vscode.workspace.openTextDocument(uri), '// Header\ncontent');
+		});
+
+		test('Invalid triggers are reported', () => {
+			const { valid, problems } = validateReplacements([{ search: 'a', replace: 'b', triggers: ['later'] }], new Set());
+			assert.strictEqual(valid.length, 0);
+			assert.ok(problems[0].message.startsWith('Invalid trigger "later"'));
+		});
 	});
 });